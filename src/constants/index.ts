@@ -2,6 +2,8 @@
  * Application-wide constants to replace magic numbers and strings
  */
 
+import type { QualityProfile } from "@/types/modern-table";
+
 // Time constants (in milliseconds)
 export const TIME_CONSTANTS = {
   /** Default cache TTL: 24 hours */
@@ -279,6 +281,84 @@ export const TABLE_CONSTANTS = {
   MAX_COLUMNS: 20,
 } as const;
 
+// Quality profile constants
+export const QUALITY_PROFILES = {
+  /** Id of the built-in profile */
+  DEFAULT_PROFILE_ID: "default",
+
+  /** Built-in profile, roughly matching how releases are usually picked */
+  DEFAULT_PROFILE: {
+    id: "default",
+    name: "Default",
+    rules: [
+      {
+        id: "seadex-best",
+        name: "SeaDex Best",
+        field: "seadexBest",
+        operator: "isTrue",
+        value: "",
+        score: 100,
+        enabled: true,
+      },
+      {
+        id: "seadex-alt",
+        name: "SeaDex Alt",
+        field: "seadexAlt",
+        operator: "isTrue",
+        value: "",
+        score: 50,
+        enabled: true,
+      },
+      {
+        id: "freeleech",
+        name: "Freeleech",
+        field: "freeleech",
+        operator: "isTrue",
+        value: "",
+        score: 20,
+        enabled: true,
+      },
+      {
+        id: "remastered",
+        name: "Remastered",
+        field: "flags",
+        operator: "contains",
+        value: "Remastered",
+        score: 10,
+        enabled: true,
+      },
+      {
+        id: "dual-audio",
+        name: "Dual Audio",
+        field: "dualAudio",
+        operator: "isTrue",
+        value: "",
+        score: 10,
+        enabled: true,
+      },
+      {
+        id: "blu-ray",
+        name: "Blu-ray source",
+        field: "format",
+        operator: "contains",
+        value: "Blu-ray",
+        score: 15,
+        enabled: true,
+      },
+      {
+        id: "hi10p",
+        name: "10-bit video",
+        field: "videoCodec",
+        operator: "regex",
+        value: "10",
+        score: 5,
+        enabled: true,
+      },
+      { id: "dead", name: "No seeders", field: "seeders", operator: "lessThan", value: "1", score: -50, enabled: true },
+    ],
+  } satisfies QualityProfile,
+} as const;
+
 // SeaDex constants
 export const SEADEX = {
   /** SeaDex API base URL */
@@ -0,0 +1,258 @@
+import { Copy, Plus, Trash2 } from "lucide-preact";
+import { useState } from "preact/hooks";
+import { useSettingsStore } from "@/stores/settings";
+import type { QualityProfile, QualityRule, QualityRuleField, QualityRuleOperator } from "@/types/modern-table";
+import { err, log } from "@/utils/logging";
+import {
+  compileRuleRegex,
+  createQualityId,
+  createQualityRule,
+  getActiveQualityProfile,
+  getOperatorsForField,
+  parseQualityProfile,
+  QUALITY_RULE_FIELDS,
+  QUALITY_RULE_OPERATORS,
+  serializeQualityProfile,
+} from "./modern-table/utils/quality";
+
+const UNTITLED_PROFILE_NAME = "Untitled profile";
+
+/**
+ * Settings panel for editing, sharing and switching quality profiles
+ */
+export function QualityProfileEditor() {
+  const settingsStore = useSettingsStore(["qualityProfiles", "activeQualityProfileId"]);
+  const { qualityProfiles, activeQualityProfileId } = settingsStore;
+  const [importText, setImportText] = useState("");
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const profile = getActiveQualityProfile(qualityProfiles, activeQualityProfileId);
+
+  const saveProfiles = (profiles: QualityProfile[]) => {
+    settingsStore.updateSetting("qualityProfiles", profiles);
+  };
+
+  const updateProfile = (updates: Partial<QualityProfile>) => {
+    if (!profile) return;
+    saveProfiles(qualityProfiles.map((p) => (p.id === profile.id ? { ...p, ...updates } : p)));
+  };
+
+  const updateRule = (ruleId: string, updates: Partial<QualityRule>) => {
+    if (!profile) return;
+    updateProfile({ rules: profile.rules.map((rule) => (rule.id === ruleId ? { ...rule, ...updates } : rule)) });
+  };
+
+  // Switching fields resets the operator when the old one doesn't apply to the new field
+  const changeRuleField = (rule: QualityRule, field: QualityRuleField) => {
+    const operators = getOperatorsForField(field);
+    updateRule(rule.id, { field, operator: operators.includes(rule.operator) ? rule.operator : operators[0] });
+  };
+
+  const addProfile = (newProfile: QualityProfile) => {
+    saveProfiles([...qualityProfiles, newProfile]);
+    settingsStore.updateSetting("activeQualityProfileId", newProfile.id);
+  };
+
+  const duplicateProfile = () => {
+    if (!profile) return;
+    addProfile({
+      id: createQualityId("profile"),
+      name: `${profile.name} (copy)`,
+      rules: profile.rules.map((rule) => ({ ...rule, id: createQualityId("rule") })),
+    });
+  };
+
+  const deleteProfile = () => {
+    if (!profile || qualityProfiles.length <= 1) return;
+    const remaining = qualityProfiles.filter((p) => p.id !== profile.id);
+    saveProfiles(remaining);
+    settingsStore.updateSetting("activeQualityProfileId", remaining[0].id);
+  };
+
+  const handleExport = () => {
+    if (!profile) return;
+    navigator.clipboard.writeText(serializeQualityProfile(profile));
+    setMessage({ type: "success", text: "Profile copied to clipboard" });
+  };
+
+  const handleImport = () => {
+    try {
+      const imported = parseQualityProfile(importText);
+      addProfile(imported);
+      setImportText("");
+      setMessage({ type: "success", text: `Imported "${imported.name}" with ${imported.rules.length} rules` });
+      log("Imported quality profile", imported.name);
+    } catch (error) {
+      err("Failed to import quality profile", error);
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Invalid profile" });
+    }
+  };
+
+  if (!profile) {
+    return null;
+  }
+
+  return (
+    <div className="ab-quality-editor">
+      <div className="ab-quality-editor-toolbar">
+        <select
+          className="ab-settings-input ab-quality-select"
+          value={profile.id}
+          onChange={(e) => settingsStore.updateSetting("activeQualityProfileId", (e.target as HTMLSelectElement).value)}
+          aria-label="Active quality profile"
+        >
+          {qualityProfiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          className="ab-settings-input"
+          value={profile.name}
+          onInput={(e) => updateProfile({ name: (e.target as HTMLInputElement).value })}
+          onBlur={(e) => {
+            // An emptied name only gets a placeholder once editing is done
+            if (!(e.target as HTMLInputElement).value.trim()) updateProfile({ name: UNTITLED_PROFILE_NAME });
+          }}
+          aria-label="Profile name"
+        />
+        <button type="button" className="ab-quality-btn" onClick={duplicateProfile} title="Duplicate profile">
+          <Copy size={14} />
+        </button>
+        <button
+          type="button"
+          className="ab-quality-btn"
+          onClick={deleteProfile}
+          disabled={qualityProfiles.length <= 1}
+          title="Delete profile"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      <table className="ab-quality-rules">
+        <thead>
+          <tr>
+            <th>On</th>
+            <th>Name</th>
+            <th>Field</th>
+            <th>Condition</th>
+            <th>Value</th>
+            <th>Score</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {profile.rules.map((rule) => {
+            const isBoolean = QUALITY_RULE_FIELDS[rule.field]?.kind === "boolean";
+            const isInvalidRegex = rule.operator === "regex" && compileRuleRegex(rule.value) === null;
+            return (
+              <tr key={rule.id} className={rule.enabled ? "" : "ab-quality-rule-disabled"}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={() => updateRule(rule.id, { enabled: !rule.enabled })}
+                    aria-label={`Enable ${rule.name}`}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    value={rule.name}
+                    onChange={(e) => updateRule(rule.id, { name: (e.target as HTMLInputElement).value })}
+                  />
+                </td>
+                <td>
+                  <select
+                    value={rule.field}
+                    onChange={(e) => changeRuleField(rule, (e.target as HTMLSelectElement).value as QualityRuleField)}
+                  >
+                    {(Object.keys(QUALITY_RULE_FIELDS) as QualityRuleField[]).map((field) => (
+                      <option key={field} value={field}>
+                        {QUALITY_RULE_FIELDS[field].label}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  <select
+                    value={rule.operator}
+                    onChange={(e) =>
+                      updateRule(rule.id, { operator: (e.target as HTMLSelectElement).value as QualityRuleOperator })
+                    }
+                  >
+                    {getOperatorsForField(rule.field).map((operator) => (
+                      <option key={operator} value={operator}>
+                        {QUALITY_RULE_OPERATORS[operator].label}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  {!isBoolean && (
+                    <input
+                      type="text"
+                      value={rule.value}
+                      className={isInvalidRegex ? "ab-quality-invalid" : ""}
+                      title={isInvalidRegex ? "Invalid regular expression" : undefined}
+                      onChange={(e) => updateRule(rule.id, { value: (e.target as HTMLInputElement).value })}
+                    />
+                  )}
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    className="ab-quality-score-input"
+                    value={rule.score}
+                    onChange={(e) =>
+                      updateRule(rule.id, { score: parseInt((e.target as HTMLInputElement).value, 10) || 0 })
+                    }
+                  />
+                </td>
+                <td>
+                  <button
+                    type="button"
+                    className="ab-quality-btn"
+                    onClick={() => updateProfile({ rules: profile.rules.filter((r) => r.id !== rule.id) })}
+                    title="Remove rule"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="ab-quality-editor-actions">
+        <button
+          type="button"
+          className="ab-quality-btn"
+          onClick={() => updateProfile({ rules: [...profile.rules, createQualityRule()] })}
+        >
+          <Plus size={14} /> Add rule
+        </button>
+        <button type="button" className="ab-quality-btn" onClick={handleExport}>
+          Export profile
+        </button>
+      </div>
+
+      <textarea
+        className="ab-settings-input ab-quality-import"
+        placeholder="Paste an exported profile here"
+        value={importText}
+        onInput={(e) => setImportText((e.target as HTMLTextAreaElement).value)}
+        rows={3}
+      />
+      <button type="button" className="ab-quality-btn" onClick={handleImport} disabled={importText.trim().length === 0}>
+        Import profile
+      </button>
+
+      {message && <div className={`ab-quality-message ab-quality-message-${message.type}`}>{message.text}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useSettingsStore } from "@/stores/settings";
+import { parseReleaseGroupList } from "@/utils/releaseGroups";
+
+/**
+ * Settings panel for the preferred and blocked release group lists
+ */
+export function ReleaseGroupEditor() {
+  const settingsStore = useSettingsStore(["preferredReleaseGroups", "blockedReleaseGroups"]);
+  const { preferredReleaseGroups, blockedReleaseGroups } = settingsStore;
+
+  return (
+    <div className="ab-group-lists-editor">
+      <label className="ab-group-list">
+        <strong>Preferred groups ({preferredReleaseGroups.length})</strong>
+        <span className="ab-settings-option-description">
+          Pinned to the top of each section and marked with a star. One group per line.
+        </span>
+        <textarea
+          className="ab-settings-input"
+          rows={8}
+          value={preferredReleaseGroups.join("\n")}
+          placeholder={"SubsPlease\nbeatrice-raws"}
+          onChange={(e) =>
+            settingsStore.updateSetting(
+              "preferredReleaseGroups",
+              parseReleaseGroupList((e.target as HTMLTextAreaElement).value),
+            )
+          }
+        />
+      </label>
+      <label className="ab-group-list">
+        <strong>Blocked groups ({blockedReleaseGroups.length})</strong>
+        <span className="ab-settings-option-description">
+          Dimmed or hidden depending on the setting above. One group per line.
+        </span>
+        <textarea
+          className="ab-settings-input"
+          rows={8}
+          value={blockedReleaseGroups.join("\n")}
+          onChange={(e) =>
+            settingsStore.updateSetting(
+              "blockedReleaseGroups",
+              parseReleaseGroupList((e.target as HTMLTextAreaElement).value),
+            )
+          }
+        />
+      </label>
+    </div>
+  );
+}
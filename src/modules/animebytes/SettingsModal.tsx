@@ -1,5 +1,11 @@
+import type { ComponentType } from "preact";
 import { useEffect, useState } from "preact/hooks";
-import { type Settings, useSettingsStore } from "@/stores/settings";
+import {
+  type BooleanSettingKey,
+  type NumberSettingKey,
+  type StringSettingKey,
+  useSettingsStore,
+} from "@/stores/settings";
 import {
   getSettingsByCategory,
   isSettingEnabled,
@@ -8,6 +14,8 @@ import {
   type SettingValue,
 } from "@/stores/settingsConfig";
 import { log } from "@/utils/logging";
+import { QualityProfileEditor } from "./QualityProfileEditor";
+import { ReleaseGroupEditor } from "./ReleaseGroupEditor";
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -51,6 +59,12 @@ const ExternalLinkIcon = () => (
   </svg>
 );
 
+// Categories with structured settings that need a dedicated editor below the regular options
+const CATEGORY_EDITORS: Record<string, ComponentType> = {
+  quality: QualityProfileEditor,
+  groups: ReleaseGroupEditor,
+};
+
 interface SettingItemProps {
   config: SettingConfig;
   value: SettingValue;
@@ -69,10 +83,18 @@ function SettingItem({ config, value, onChange, disabled }: SettingItemProps) {
   };
 
   const handleStringChange = (e: Event) => {
-    const target = e.target as HTMLInputElement;
+    const target = e.target as HTMLInputElement | HTMLSelectElement;
     onChange(config.key, target.value);
   };
 
+  // Out-of-range or partially typed numbers are ignored until they validate
+  const handleNumberChange = (e: Event) => {
+    const number = parseFloat((e.target as HTMLInputElement).value);
+    if (Number.isFinite(number) && (!config.validation || config.validation(number))) {
+      onChange(config.key, number);
+    }
+  };
+
   return (
     <div className={`ab-settings-option ${disabled ? "disabled" : ""}`}>
       <div className="ab-settings-option-content">
@@ -101,6 +123,27 @@ function SettingItem({ config, value, onChange, disabled }: SettingItemProps) {
             disabled={disabled}
           />
         )}
+        {config.type === "number" && (
+          <input
+            type="number"
+            min={config.min}
+            max={config.max}
+            step={config.step}
+            value={value as number}
+            onChange={handleNumberChange}
+            className="ab-settings-input"
+            disabled={disabled}
+          />
+        )}
+        {config.type === "select" && (
+          <select value={String(value)} onChange={handleStringChange} className="ab-settings-input" disabled={disabled}>
+            {config.options?.map((option) => (
+              <option key={String(option.value)} value={String(option.value)}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
       {config.type === "boolean" && (
         <button
@@ -163,12 +206,11 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
 
   const handleSettingChange = (key: string, value: SettingValue) => {
     if (typeof value === "string") {
-      settingsStore.updateStringSetting(
-        key as keyof Pick<Settings, "simklClientId" | "tmdbApiToken" | "youtubeApiKey">,
-        value,
-      );
+      settingsStore.updateStringSetting(key as StringSettingKey, value);
+    } else if (typeof value === "number") {
+      settingsStore.updateNumberSetting(key as NumberSettingKey, value);
     } else if (typeof value === "boolean") {
-      settingsStore.toggleSetting(key as keyof Omit<Settings, "simklClientId" | "tmdbApiToken" | "youtubeApiKey">);
+      settingsStore.toggleSetting(key as BooleanSettingKey);
     }
   };
 
@@ -190,6 +232,7 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
 
   // Get current category settings for the main panel
   const activeCategoryData = filteredCategories.find((item) => item.category.id === activeCategory);
+  const CategoryEditor = activeCategoryData && CATEGORY_EDITORS[activeCategoryData.category.id];
 
   if (!isOpen && !isClosing) {
     return null;
@@ -264,6 +307,7 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                       disabled={!isSettingEnabled(settingsValues, setting)}
                     />
                   ))}
+                  {CategoryEditor && <CategoryEditor />}
                 </div>
               </>
             )}
@@ -1,9 +1,12 @@
-import { useEffect, useRef, useState } from "preact/hooks";
+import { Star } from "lucide-preact";
+import { useEffect, useMemo, useRef, useState } from "preact/hooks";
 import { useDescriptionStore } from "@/stores/descriptions";
 import { useSettingsStore } from "@/stores/settings";
 import { err, log } from "@/utils/logging";
+import { createReleaseGroupMatcher } from "@/utils/releaseGroups";
 import { formatTagName, getTagStyle } from "@/utils/tags";
 import { DescriptionRenderer } from "../DescriptionRenderer";
+import { extractTorrentData } from "../modern-table";
 
 interface GalleryItem {
   id: string;
@@ -12,6 +15,7 @@ interface GalleryItem {
   torrentPageUrl: string;
   tags: string[];
   description: string;
+  releaseGroups: string[];
 }
 
 interface GalleryViewProps {
@@ -72,6 +76,12 @@ function extractGalleryItems(): GalleryItem[] {
       const descriptionElement = groupDiv.querySelector("div.torrent_desc");
       const description = descriptionElement?.innerHTML.trim() || "No description available.";
 
+      // Release groups of the torrents listed under this group, for the preferred/blocked lists
+      const torrentTable = groupDiv.querySelector("table.torrent_group") as HTMLTableElement | null;
+      const releaseGroups = torrentTable
+        ? Array.from(new Set(extractTorrentData(torrentTable, false).map((torrent) => torrent.group)))
+        : [];
+
       items.push({
         id: `gallery-item-${index}`,
         title: torrentTitle,
@@ -79,6 +89,7 @@ function extractGalleryItems(): GalleryItem[] {
         torrentPageUrl,
         tags,
         description,
+        releaseGroups: releaseGroups.filter(Boolean),
       });
     } catch (error) {
       err("AB Suite Gallery: Error processing torrent group", error);
@@ -88,7 +99,13 @@ function extractGalleryItems(): GalleryItem[] {
   return items;
 }
 
-function GalleryItem({ item }: { item: GalleryItem }) {
+interface GalleryItemProps {
+  item: GalleryItem;
+  preferredGroups: string[];
+  isBlocked: boolean;
+}
+
+function GalleryItem({ item, preferredGroups, isBlocked }: GalleryItemProps) {
   const { enhancedTagStylingEnabled } = useSettingsStore(["enhancedTagStylingEnabled"]);
   const [imageError, setImageError] = useState(false);
 
@@ -101,9 +118,15 @@ function GalleryItem({ item }: { item: GalleryItem }) {
     : item.coverImageUrl;
 
   return (
-    <div className="ab-gallery-item">
+    <div className={`ab-gallery-item ${isBlocked ? "ab-gallery-item-blocked" : ""}`}>
       <a href={item.torrentPageUrl} title={item.title} className="ab-gallery-item-clickable-area">
         <img src={fallbackImageUrl} alt={item.title} className="ab-gallery-cover-image" onError={handleImageError} />
+        {preferredGroups.length > 0 && (
+          <span className="ab-gallery-preferred-badge" title={`Preferred groups: ${preferredGroups.join(", ")}`}>
+            <Star size={12} />
+            {preferredGroups.join(", ")}
+          </span>
+        )}
         <div className="ab-gallery-title-container">
           <span className="ab-gallery-title-text">{item.title}</span>
         </div>
@@ -127,7 +150,13 @@ function GalleryItem({ item }: { item: GalleryItem }) {
 }
 
 export function GalleryView({ className }: GalleryViewProps) {
-  const { galleryViewEnabled } = useSettingsStore(["galleryViewEnabled"]);
+  const { galleryViewEnabled, preferredReleaseGroups, blockedReleaseGroups, blockedReleaseGroupMode } =
+    useSettingsStore([
+      "galleryViewEnabled",
+      "preferredReleaseGroups",
+      "blockedReleaseGroups",
+      "blockedReleaseGroupMode",
+    ]);
   const descriptionStore = useDescriptionStore();
   const [galleryItems, setGalleryItems] = useState<GalleryItem[]>([]);
   const [isActive, setIsActive] = useState(false);
@@ -189,6 +218,23 @@ export function GalleryView({ className }: GalleryViewProps) {
     }
   }, [isActive, galleryViewEnabled]);
 
+  // Badge cards with preferred groups; a card counts as blocked when all of its releases are from blocked groups
+  const groupStatuses = useMemo(() => {
+    const getStatus = createReleaseGroupMatcher(preferredReleaseGroups, blockedReleaseGroups);
+    return new Map(
+      galleryItems.map((item) => {
+        const statuses = item.releaseGroups.map(getStatus);
+        return [
+          item.id,
+          {
+            preferredGroups: item.releaseGroups.filter((_, index) => statuses[index] === "preferred"),
+            isBlocked: statuses.length > 0 && statuses.every((status) => status === "blocked"),
+          },
+        ];
+      }),
+    );
+  }, [galleryItems, preferredReleaseGroups, blockedReleaseGroups]);
+
   const toggleView = () => {
     const newState = !isActive;
     setIsActive(newState);
@@ -209,9 +255,18 @@ export function GalleryView({ className }: GalleryViewProps) {
         ref={containerRef}
         className={`ab-gallery-container ${isActive ? "ab-gallery-display-control" : "ab-gallery-display-none"}`}
       >
-        {galleryItems.map((item) => (
-          <GalleryItem key={item.id} item={item} />
-        ))}
+        {galleryItems.map((item) => {
+          const status = groupStatuses.get(item.id);
+          if (status?.isBlocked && blockedReleaseGroupMode === "hide") return null;
+          return (
+            <GalleryItem
+              key={item.id}
+              item={item}
+              preferredGroups={status?.preferredGroups ?? []}
+              isBlocked={status?.isBlocked ?? false}
+            />
+          );
+        })}
       </div>
     </div>
   );
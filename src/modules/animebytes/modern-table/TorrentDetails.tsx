@@ -3,29 +3,57 @@ import { useSettingsStore } from "@/stores/settings";
 import type { TorrentDetailsData, TorrentDetailsProps } from "@/types/modern-table";
 import { err, log } from "@/utils/logging";
 import {
+  CrossSeedPanel,
   DescriptionTab,
   FilelistTab,
   MediaInfoTab,
   PeerlistTab,
   ScreenshotsTab,
   SeaDexTab,
+  SubtitlesTab,
   TreeFilelistTab,
   UploadDescription,
 } from "./detail-components";
 import { extractTorrentDetailsData, fetchPeerlistData, fetchScreenshotsData } from "./details-extraction";
+import { useDetailsTabNavigation } from "./hooks/useKeyboardNavigation";
+
+/**
+ * Tabs that have content for this torrent
+ */
+function getAvailableTabs(detailsData: TorrentDetailsData) {
+  return [
+    { id: "description", label: "Description", available: true },
+    { id: "filelist", label: "Filelist", available: detailsData.filelist.length > 0 },
+    { id: "mediainfo", label: "MediaInfo", available: detailsData.mediaInfo.length > 0 },
+    { id: "subtitles", label: "Subtitles", available: detailsData.subtitleAnalysis.tracks.length > 0 },
+    { id: "screenshots", label: "Screenshots", available: true },
+    { id: "peerlist", label: "Peer list", available: true },
+    { id: "seadex", label: "SeaDex", available: !!detailsData.seadexData },
+  ].filter((tab) => tab.available);
+}
 
 /**
  * Modern declarative torrent details component.
  * Extracts structured data from the original HTML and renders it using individual tab components.
  */
-export function TorrentDetails({ torrentId, groupId, detailsHtml, onDataExtracted }: TorrentDetailsProps) {
+export function TorrentDetails({
+  torrentId,
+  groupId,
+  detailsHtml,
+  onDataExtracted,
+  initialTab = "description",
+  onTabChange,
+}: TorrentDetailsProps) {
   const [detailsData, setDetailsData] = useState<TorrentDetailsData | null>(null);
-  const [activeTab, setActiveTab] = useState<string>("description");
+  const [activeTab, setActiveTab] = useState<string>(initialTab);
   const [screenshotsLoading, setScreenshotsLoading] = useState(false);
   const [peerlistLoading, setPeerlistLoading] = useState(false);
   const [screenshotsLoaded, setScreenshotsLoaded] = useState(false);
   const [peerlistLoaded, setPeerlistLoaded] = useState(false);
-  const { treeFilelistEnabled } = useSettingsStore(["treeFilelistEnabled"]);
+  const { treeFilelistEnabled, crossSeedFinderEnabled } = useSettingsStore([
+    "treeFilelistEnabled",
+    "crossSeedFinderEnabled",
+  ]);
 
   // Extract data on mount
   useEffect(() => {
@@ -33,6 +61,8 @@ export function TorrentDetails({ torrentId, groupId, detailsHtml, onDataExtracte
       log("Starting torrent details extraction", { torrentId, groupId });
       const extractedData = extractTorrentDetailsData(torrentId, groupId, detailsHtml);
       setDetailsData(extractedData);
+      // A restored tab may not exist for this torrent
+      setActiveTab((tab) => (getAvailableTabs(extractedData).some(({ id }) => id === tab) ? tab : "description"));
       onDataExtracted?.(extractedData);
       log("Successfully extracted torrent details data");
     } catch (error) {
@@ -47,6 +77,7 @@ export function TorrentDetails({ torrentId, groupId, detailsHtml, onDataExtracte
         description: "",
         mediaInfo: "",
         filelist: [],
+        subtitleAnalysis: { tracks: [], kinds: [], hasOfficial: false, hasFansub: false },
         screenshots: [],
         peerlist: [],
         seadexData: null,
@@ -54,13 +85,18 @@ export function TorrentDetails({ torrentId, groupId, detailsHtml, onDataExtracte
     }
   }, [torrentId, groupId, detailsHtml, onDataExtracted]);
 
+  const selectTab = (tab: string) => {
+    setActiveTab(tab);
+    onTabChange?.(tab);
+  };
+
   // Load screenshots dynamically
   const loadScreenshots = async () => {
     if (!detailsData || screenshotsLoaded || screenshotsLoading) return;
 
     setScreenshotsLoading(true);
     try {
-      const screenshots = await fetchScreenshotsData(torrentId, groupId);
+      const screenshots = (await fetchScreenshotsData(torrentId, groupId)) ?? [];
       setDetailsData((prev) => (prev ? { ...prev, screenshots } : null));
       setScreenshotsLoaded(true);
     } catch (error) {
@@ -76,7 +112,7 @@ export function TorrentDetails({ torrentId, groupId, detailsHtml, onDataExtracte
 
     setPeerlistLoading(true);
     try {
-      const peerlist = await fetchPeerlistData(torrentId, groupId);
+      const peerlist = (await fetchPeerlistData(torrentId, groupId)) ?? [];
       setDetailsData((prev) => (prev ? { ...prev, peerlist } : null));
       setPeerlistLoaded(true);
     } catch (error) {
@@ -86,7 +122,8 @@ export function TorrentDetails({ torrentId, groupId, detailsHtml, onDataExtracte
     }
   };
 
-  // Auto-load data and hook screenshots on tab change
+  // Auto-load data and hook screenshots on tab change, or once the details are extracted for a restored tab
+  const hasDetailsData = detailsData !== null;
   useEffect(() => {
     if (activeTab === "screenshots") {
       // Auto-load screenshots if not loaded yet
@@ -106,7 +143,15 @@ export function TorrentDetails({ torrentId, groupId, detailsHtml, onDataExtracte
         loadPeerlist();
       }
     }
-  }, [activeTab, screenshotsLoaded, screenshotsLoading, peerlistLoaded, peerlistLoading]);
+  }, [activeTab, hasDetailsData, screenshotsLoaded, screenshotsLoading, peerlistLoaded, peerlistLoading]);
+
+  // Keyboard navigation cycles through the available tabs
+  useDetailsTabNavigation(torrentId, (direction) => {
+    if (!detailsData) return;
+    const tabs = getAvailableTabs(detailsData);
+    const index = tabs.findIndex((tab) => tab.id === activeTab);
+    selectTab(tabs[(index + direction + tabs.length) % tabs.length].id);
+  });
 
   if (!detailsData) {
     return (
@@ -121,14 +166,7 @@ export function TorrentDetails({ torrentId, groupId, detailsHtml, onDataExtracte
   }
 
   // Determine available tabs
-  const availableTabs = [
-    { id: "description", label: "Description", available: true },
-    { id: "filelist", label: "Filelist", available: detailsData.filelist.length > 0 },
-    { id: "mediainfo", label: "MediaInfo", available: detailsData.mediaInfo.length > 0 },
-    { id: "screenshots", label: "Screenshots", available: true },
-    { id: "peerlist", label: "Peer list", available: true },
-    { id: "seadex", label: "SeaDex", available: !!detailsData.seadexData },
-  ].filter((tab) => tab.available);
+  const availableTabs = getAvailableTabs(detailsData);
 
   const renderActiveTab = () => {
     switch (activeTab) {
@@ -142,6 +180,8 @@ export function TorrentDetails({ torrentId, groupId, detailsHtml, onDataExtracte
         );
       case "mediainfo":
         return <MediaInfoTab mediaInfo={detailsData.mediaInfo} />;
+      case "subtitles":
+        return <SubtitlesTab analysis={detailsData.subtitleAnalysis} />;
       case "screenshots":
         return (
           <ScreenshotsTab
@@ -173,6 +213,11 @@ export function TorrentDetails({ torrentId, groupId, detailsHtml, onDataExtracte
           {/* Upload description */}
           <UploadDescription uploadDescription={detailsData.uploadDescription} />
 
+          {/* Other torrents sharing files with this one */}
+          {crossSeedFinderEnabled && (
+            <CrossSeedPanel torrentId={torrentId} groupId={groupId} filelist={detailsData.filelist} />
+          )}
+
           {/* Tabs */}
           <div className="ab-details-tabs">
             {/* Tab navigation */}
@@ -180,7 +225,7 @@ export function TorrentDetails({ torrentId, groupId, detailsHtml, onDataExtracte
               <ul className="ab-tabs-list">
                 {availableTabs.map((tab) => (
                   <li key={tab.id} className={`ab-tab ${activeTab === tab.id ? "ab-tab-active" : ""}`}>
-                    <button type="button" className="ab-tab-btn" onClick={() => setActiveTab(tab.id)}>
+                    <button type="button" className="ab-tab-btn" onClick={() => selectTab(tab.id)}>
                       {tab.label}
                     </button>
                   </li>
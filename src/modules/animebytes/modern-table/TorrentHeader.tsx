@@ -1,283 +1,160 @@
 import { ChevronDown, ChevronsUpDown, ChevronUp, Maximize2, Minimize2 } from "lucide-preact";
-import type { SortColumn, SortDirection, TableType } from "@/types/modern-table";
+import { useState } from "preact/hooks";
+import type { ColumnId, SortColumn, SortKey } from "@/types/modern-table";
+import { getColumnDefinition } from "./columns";
 
 interface TorrentHeaderProps {
-  sortColumn: SortColumn;
-  sortDirection: SortDirection;
-  onSort: (column: SortColumn) => void;
-  tableType: TableType;
-  showRegionColumn: boolean;
-  showDualAudioColumn: boolean;
-  compactResolutionMode: boolean;
+  sortKeys: SortKey[];
+  onSort: (column: SortColumn, additive: boolean) => void;
+  columns: ColumnId[];
+  onReorderColumn?: (from: ColumnId, to: ColumnId) => void;
   hasAnySections?: boolean;
   allSectionsExpanded?: boolean;
   onToggleAllSections?: () => void;
 }
 
 /**
- * Table header component with comprehensive column layout matching the original implementation
+ * Table header component rendering the configured column layout.
+ * Column headers can be dragged onto each other to reorder them,
+ * and shift-clicking a header adds it as an additional sort key.
  */
 export function TorrentHeader({
-  sortColumn,
-  sortDirection,
+  sortKeys,
   onSort,
-  tableType,
-  showRegionColumn,
-  showDualAudioColumn,
-  compactResolutionMode,
+  columns,
+  onReorderColumn,
   hasAnySections = false,
   allSectionsExpanded = true,
   onToggleAllSections,
 }: TorrentHeaderProps) {
-  const handleSort = (column: SortColumn) => {
-    onSort(column);
+  const [draggedColumn, setDraggedColumn] = useState<ColumnId | null>(null);
+  const [dropTarget, setDropTarget] = useState<ColumnId | null>(null);
+
+  const handleSort = (e: MouseEvent, column: SortColumn) => {
+    onSort(column, e.shiftKey);
   };
 
   const handleSortKeyDown = (e: KeyboardEvent, column: SortColumn) => {
     if (e.key === "Enter" || e.key === " ") {
       e.preventDefault();
-      handleSort(column);
+      onSort(column, e.shiftKey);
     }
   };
 
   const renderSortIndicator = (column: SortColumn) => {
-    if (sortColumn !== column) {
+    const keyIndex = sortKeys.findIndex((key) => key.column === column);
+    if (keyIndex === -1) {
       return <ChevronsUpDown size={14} className="ab-sort-indicator" />;
     }
 
-    return sortDirection === "asc" ? (
-      <ChevronUp size={14} className="ab-sort-indicator ab-sort-active" />
-    ) : (
-      <ChevronDown size={14} className="ab-sort-indicator ab-sort-active" />
+    return (
+      <>
+        {sortKeys[keyIndex].direction === "asc" ? (
+          <ChevronUp size={14} className="ab-sort-indicator ab-sort-active" />
+        ) : (
+          <ChevronDown size={14} className="ab-sort-indicator ab-sort-active" />
+        )}
+        {sortKeys.length > 1 && <span className="ab-sort-priority">{keyIndex + 1}</span>}
+      </>
     );
   };
 
-  const SortableHeader = ({
-    column,
-    children,
-    className = "",
-    title,
-  }: {
-    column: SortColumn;
-    children: preact.ComponentChildren;
-    className?: string;
-    title?: string;
-  }) => (
-    <td
-      className={`${className} ab-sortable`}
-      onClick={() => handleSort(column)}
-      onKeyDown={(e) => handleSortKeyDown(e, column)}
-      title={title}
-    >
-      <div className="ab-header-content">
-        {children}
-        {renderSortIndicator(column)}
-      </div>
-    </td>
-  );
+  const handleDragStart = (e: DragEvent, id: ColumnId) => {
+    setDraggedColumn(id);
+    e.dataTransfer?.setData("text/plain", id);
+    if (e.dataTransfer) e.dataTransfer.effectAllowed = "move";
+  };
 
-  const handleToggleAllKeyDown = (e: KeyboardEvent) => {
-    if (e.key === "Enter" || e.key === " ") {
-      e.preventDefault();
-      if (onToggleAllSections) {
-        onToggleAllSections();
-      }
+  const handleDragOver = (e: DragEvent, id: ColumnId) => {
+    if (!draggedColumn) return;
+    e.preventDefault();
+    if (dropTarget !== id) setDropTarget(id);
+  };
+
+  const handleDrop = (e: DragEvent, id: ColumnId) => {
+    e.preventDefault();
+    if (draggedColumn && draggedColumn !== id) {
+      onReorderColumn?.(draggedColumn, id);
     }
+    setDraggedColumn(null);
+    setDropTarget(null);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedColumn(null);
+    setDropTarget(null);
   };
 
-  // Common header elements for all table types
-  const commonHeaderStart = (
-    <>
+  // Rendered through a plain function (not a nested component) so cells keep their identity while dragging
+  const renderColumnHeader = (id: ColumnId) => {
+    const definition = getColumnDefinition(id);
+    const { sortColumn: column } = definition;
+    const classes = [definition.className];
+    if (column) classes.push("ab-sortable");
+    if (onReorderColumn) classes.push("ab-draggable-column");
+    if (draggedColumn === id) classes.push("ab-column-dragging");
+    if (dropTarget === id && draggedColumn !== id) classes.push("ab-column-drop-target");
+
+    return (
       <td
-        className={`ab-col-download ${hasAnySections && onToggleAllSections ? "ab-sortable" : ""}`}
-        onClick={hasAnySections && onToggleAllSections ? onToggleAllSections : undefined}
-        onKeyDown={hasAnySections && onToggleAllSections ? handleToggleAllKeyDown : undefined}
-        title={
-          hasAnySections && onToggleAllSections
-            ? allSectionsExpanded
-              ? "Collapse all sections"
-              : "Expand all sections"
-            : undefined
-        }
+        key={id}
+        className={classes.join(" ")}
+        onClick={column ? (e) => handleSort(e, column) : undefined}
+        onKeyDown={column ? (e) => handleSortKeyDown(e, column) : undefined}
+        title={column ? `Sort by ${definition.label} (shift-click to add as secondary sort)` : undefined}
+        draggable={!!onReorderColumn}
+        onDragStart={(e) => handleDragStart(e, id)}
+        onDragOver={(e) => handleDragOver(e, id)}
+        onDragLeave={() => dropTarget === id && setDropTarget(null)}
+        onDrop={(e) => handleDrop(e, id)}
+        onDragEnd={handleDragEnd}
       >
-        {hasAnySections && onToggleAllSections && (
-          <div className="ab-header-content">
-            {allSectionsExpanded ? (
-              <Minimize2 size={14} className="ab-sort-indicator" />
-            ) : (
-              <Maximize2 size={14} className="ab-sort-indicator" />
-            )}
-          </div>
-        )}
+        <div className="ab-header-content">
+          {definition.header ?? definition.label}
+          {column && renderSortIndicator(column)}
+        </div>
       </td>
+    );
+  };
 
-      {/* Only show Group column for anime tables */}
-      {tableType === "anime" && (
-        <SortableHeader column="group" className="ab-col-group" title="Sort by Group">
-          Group
-        </SortableHeader>
-      )}
-    </>
-  );
-
-  const commonHeaderEnd = (
-    <>
-      <SortableHeader column="size" className="ab-col-size" title="Sort by Size">
-        Size
-      </SortableHeader>
-
-      <SortableHeader column="snatches" className="ab-col-snatches" title="Sort by Snatches">
-        <img src="/static/css/coalbytes/images/snatched.svg" alt="Snatches" title="Snatches" />
-      </SortableHeader>
-
-      <SortableHeader column="seeders" className="ab-col-seeders" title="Sort by Seeders">
-        <img src="/static/css/coalbytes/images/seeders.svg" alt="Seeders" title="Seeders" />
-      </SortableHeader>
-
-      <SortableHeader column="leechers" className="ab-col-leechers" title="Sort by Leechers">
-        <img src="/static/css/coalbytes/images/leechers.svg" alt="Leechers" title="Leechers" />
-      </SortableHeader>
-
-      <SortableHeader column="flags" className="ab-col-flags" title="Sort by Flags">
-        Flags
-      </SortableHeader>
-
-      <td className="ab-col-report"></td>
-    </>
-  );
-
-  // Render different columns based on table type
-  const renderTableSpecificHeaders = () => {
-    switch (tableType) {
-      case "anime":
-        return (
-          <>
-            <SortableHeader column="format" className="ab-col-format" title="Sort by Source">
-              Source
-            </SortableHeader>
-
-            {showRegionColumn && (
-              <SortableHeader column="region" className="ab-col-region" title="Sort by Region">
-                Region
-              </SortableHeader>
-            )}
-
-            <SortableHeader column="container" className="ab-col-container" title="Sort by Container">
-              Container
-            </SortableHeader>
-
-            <SortableHeader column="videoCodec" className="ab-col-video-codec" title="Sort by Codec">
-              Codec
-            </SortableHeader>
-
-            {!compactResolutionMode && <td className="ab-col-aspect-ratio">Aspect</td>}
-
-            <SortableHeader column="resolution" className="ab-col-resolution" title="Sort by Resolution">
-              Resolution
-            </SortableHeader>
-
-            <SortableHeader column="audio" className="ab-col-audio" title="Sort by Audio">
-              Audio
-            </SortableHeader>
-
-            <SortableHeader column="audioChannels" className="ab-col-audio-channels" title="Sort by Channels">
-              Channels
-            </SortableHeader>
-
-            {showDualAudioColumn && (
-              <SortableHeader column="hasDualAudio" className="ab-col-dual-audio" title="Sort by Dual Audio">
-                Dual Audio
-              </SortableHeader>
-            )}
-
-            <SortableHeader column="subtitles" className="ab-col-subtitles" title="Sort by Subtitles">
-              Subtitles
-            </SortableHeader>
-          </>
-        );
-
-      case "printed_media":
-        return (
-          <>
-            <SortableHeader column="printedMediaType" className="ab-col-printed-type" title="Sort by Type">
-              Type
-            </SortableHeader>
-
-            <SortableHeader column="translator" className="ab-col-translator" title="Sort by Translator">
-              Translator
-            </SortableHeader>
-
-            <SortableHeader column="isDigital" className="ab-col-digital" title="Sort by Digital">
-              Digital
-            </SortableHeader>
-
-            <SortableHeader column="printedFormat" className="ab-col-printed-format" title="Sort by Format">
-              Format
-            </SortableHeader>
-
-            <SortableHeader column="isOngoing" className="ab-col-ongoing" title="Sort by Ongoing">
-              Ongoing
-            </SortableHeader>
-          </>
-        );
-
-      case "games":
-        return (
-          <>
-            <SortableHeader column="gameType" className="ab-col-game-type" title="Sort by Type">
-              Type
-            </SortableHeader>
-
-            <SortableHeader column="platform" className="ab-col-platform" title="Sort by Platform">
-              Platform
-            </SortableHeader>
-
-            <SortableHeader column="gameRegion" className="ab-col-game-region" title="Sort by Region">
-              Region
-            </SortableHeader>
-
-            <SortableHeader column="isArchived" className="ab-col-archived" title="Sort by Archived">
-              Archived
-            </SortableHeader>
-          </>
-        );
-
-      case "music":
-        return (
-          <>
-            <SortableHeader column="musicCodec" className="ab-col-music-codec" title="Sort by Codec">
-              Codec
-            </SortableHeader>
-
-            <SortableHeader column="bitrate" className="ab-col-bitrate" title="Sort by Bitrate">
-              Bitrate
-            </SortableHeader>
-
-            <SortableHeader column="media" className="ab-col-media" title="Sort by Media">
-              Media
-            </SortableHeader>
-
-            <SortableHeader column="hasLog" className="ab-col-log" title="Sort by Log">
-              Log
-            </SortableHeader>
-
-            <SortableHeader column="hasCue" className="ab-col-cue" title="Sort by Cue">
-              Cue
-            </SortableHeader>
-          </>
-        );
-
-      default:
-        return null;
+  const handleToggleAllKeyDown = (e: KeyboardEvent) => {
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      if (onToggleAllSections) {
+        onToggleAllSections();
+      }
     }
   };
 
   return (
     <thead>
       <tr className="ab-modern-header">
-        {commonHeaderStart}
-        {renderTableSpecificHeaders()}
-        {commonHeaderEnd}
+        <td
+          className={`ab-col-download ${hasAnySections && onToggleAllSections ? "ab-sortable" : ""}`}
+          onClick={hasAnySections && onToggleAllSections ? onToggleAllSections : undefined}
+          onKeyDown={hasAnySections && onToggleAllSections ? handleToggleAllKeyDown : undefined}
+          title={
+            hasAnySections && onToggleAllSections
+              ? allSectionsExpanded
+                ? "Collapse all sections"
+                : "Expand all sections"
+              : undefined
+          }
+        >
+          {hasAnySections && onToggleAllSections && (
+            <div className="ab-header-content">
+              {allSectionsExpanded ? (
+                <Minimize2 size={14} className="ab-sort-indicator" />
+              ) : (
+                <Maximize2 size={14} className="ab-sort-indicator" />
+              )}
+            </div>
+          )}
+        </td>
+
+        {columns.map(renderColumnHeader)}
+
+        <td className="ab-col-report"></td>
       </tr>
     </thead>
   );
@@ -1,34 +1,68 @@
-import { Check, Download, Flag, Link, X } from "lucide-preact";
+import { Download, FileSearch, Flag, Link } from "lucide-preact";
 import { memo } from "preact/compat";
-import type { ParsedTorrentRow, TableType } from "@/types/modern-table";
+import { useEffect, useRef } from "preact/hooks";
+import type { ColumnId, ParsedTorrentRow } from "@/types/modern-table";
+import { getColumnDefinition } from "./columns";
 import { TorrentDetails } from "./TorrentDetails";
+import { isFreeleech, isSeaDexAlt, isSeaDexBest } from "./utils/filtering";
 
 interface TorrentRowProps {
   torrent: ParsedTorrentRow;
   isExpanded: boolean;
   onToggleExpanded: (torrentId: string) => void;
-  tableType: TableType;
+  columns: ColumnId[];
   compactResolutionMode: boolean;
-  showRegionColumn: boolean;
-  showDualAudioColumn: boolean;
   isOddGroup: boolean;
   isSeriesPage?: boolean;
+  isSelected: boolean;
+  isFocused: boolean;
+  isNew?: boolean;
+  onToggleSelected: (torrentId: string) => void;
+  /** Called once the pointer has rested on the row, used to prefetch its details */
+  onHoverIntent?: (torrent: ParsedTorrentRow) => void;
+  /** Details tab to open when the row is expanded, restored from the page state */
+  initialDetailsTab?: string;
+  onDetailsTabChange?: (torrentId: string, tab: string) => void;
+  /** Opens the .torrent file inspector */
+  onInspect?: (torrent: ParsedTorrentRow) => void;
 }
 
+// Long enough to skip rows the pointer merely passes over
+const HOVER_INTENT_DELAY = 250;
+
 /**
- * Comprehensive torrent row component matching the original implementation
+ * Torrent row component rendering the cells of the configured column layout
  */
 function TorrentRowComponent({
   torrent,
   isExpanded,
   onToggleExpanded,
-  tableType,
+  columns,
   compactResolutionMode,
-  showRegionColumn,
-  showDualAudioColumn,
   isOddGroup,
   isSeriesPage = false,
+  isSelected,
+  isFocused,
+  isNew = false,
+  onToggleSelected,
+  onHoverIntent,
+  initialDetailsTab,
+  onDetailsTabChange,
+  onInspect,
 }: TorrentRowProps) {
+  const hoverTimeout = useRef<ReturnType<typeof setTimeout>>();
+
+  const handleMouseEnter = () => {
+    if (!onHoverIntent || isExpanded) return;
+    hoverTimeout.current = setTimeout(() => onHoverIntent(torrent), HOVER_INTENT_DELAY);
+  };
+
+  const handleMouseLeave = () => {
+    clearTimeout(hoverTimeout.current);
+  };
+
+  useEffect(() => () => clearTimeout(hoverTimeout.current), []);
+
   const handleToggleExpanded = () => {
     onToggleExpanded(torrent.torrentId);
   };
@@ -36,7 +70,7 @@ function TorrentRowComponent({
   const handleRowClick = (e: MouseEvent) => {
     // Only handle row clicks if not clicking on buttons/links
     const target = e.target as HTMLElement;
-    if (!target.closest("a, button")) {
+    if (!target.closest("a, button, input")) {
       if (isSeriesPage) {
         // On series pages, navigate to the details page
         if (torrent.detailsLink) {
@@ -51,42 +85,6 @@ function TorrentRowComponent({
     }
   };
 
-  // Helper function to get compact resolution format
-  const getCompactResolution = (): string => {
-    if (!compactResolutionMode) {
-      return torrent.resolution || "";
-    }
-
-    const resolution = torrent.resolution || "";
-    const aspectRatio = torrent.aspectRatio || "";
-
-    // If already in wxh format, keep as-is
-    if (resolution.match(/^\d+x\d+[ip]?$/)) {
-      return resolution;
-    }
-
-    // Convert p/i formats to wxh
-    const match = resolution.match(/^(\d+)([pi])$/);
-    if (match) {
-      const height = parseInt(match[1]);
-      const progressive = match[2];
-      let width: number;
-
-      // Use aspect ratio if available, otherwise assume 16:9
-      if (aspectRatio?.includes(":")) {
-        const [w, h] = aspectRatio.split(":").map((n) => parseFloat(n));
-        width = Math.round((height * w) / h);
-      } else {
-        // Default to 16:9 for common resolutions
-        width = Math.round((height * 16) / 9);
-      }
-
-      return progressive === "i" ? `${width}x${height}i` : `${width}x${height}`;
-    }
-
-    return resolution;
-  };
-
   // Determine row classes for styling
   const getRowClasses = (): string => {
     const classes = ["ab-modern-row"];
@@ -97,20 +95,49 @@ function TorrentRowComponent({
     }
 
     // Check for freeleech using legacy field or flags
-    if (torrent.isFreeleech || torrent.flags.some((flag) => flag.toLowerCase().includes("freeleech"))) {
+    if (isFreeleech(torrent)) {
       classes.push("ab-freeleech");
     }
 
     // Check for SeaDex indicators using legacy fields or flags
-    if (
-      torrent.isSeaDexBest ||
-      torrent.flags.some((flag) => flag.toLowerCase().includes("seadex") && flag.toLowerCase().includes("best"))
-    ) {
+    if (isSeaDexBest(torrent)) {
       classes.push("ab-seadex-best");
-    } else if (torrent.isSeaDexAlt || torrent.flags.some((flag) => flag.toLowerCase().includes("seadex"))) {
+    } else if (isSeaDexAlt(torrent)) {
       classes.push("ab-seadex-alt");
     }
 
+    // Best quality profile score within the section
+    if (torrent.isQualityBest) {
+      classes.push("ab-quality-best");
+    }
+
+    // Release group list membership
+    if (torrent.releaseGroupStatus === "preferred") {
+      classes.push("ab-preferred-group");
+    } else if (torrent.releaseGroupStatus === "blocked") {
+      classes.push("ab-blocked-group");
+    }
+
+    // Duplicate or superseded by another release in the table
+    if (torrent.redundancy) {
+      classes.push("ab-row-redundant");
+    }
+
+    // Selected for bulk actions and comparison
+    if (isSelected) {
+      classes.push("ab-row-selected");
+    }
+
+    // Added since the previous visit
+    if (isNew) {
+      classes.push("ab-row-new");
+    }
+
+    // Keyboard navigation focus
+    if (isFocused) {
+      classes.push("ab-keyboard-focused");
+    }
+
     // Add details indicator
     if (torrent.hasDetails || torrent.detailsHtml) {
       classes.push("ab-has-details");
@@ -144,168 +171,77 @@ function TorrentRowComponent({
           >
             <Link size={16} />
           </a>
+          {onInspect && (
+            <button
+              type="button"
+              className="ab-inspect-btn"
+              title="Inspect .torrent file"
+              aria-label="Inspect .torrent file"
+              onClick={(e) => {
+                e.stopPropagation();
+                onInspect(torrent);
+              }}
+            >
+              <FileSearch size={16} />
+            </button>
+          )}
+          <input
+            type="checkbox"
+            className="ab-select-checkbox"
+            checked={isSelected}
+            onChange={() => onToggleSelected(torrent.torrentId)}
+            title="Select torrent"
+            aria-label="Select torrent"
+          />
         </div>
       </td>
-
-      {/* Only show Group column for anime tables */}
-      {tableType === "anime" && <td className="ab-col-group">{torrent.group || ""}</td>}
     </>
   );
 
   const commonRowEnd = (
-    <>
-      <td className="ab-col-size">{torrent.size}</td>
-
-      <td className="ab-col-snatches">{torrent.snatches}</td>
-
-      <td className="ab-col-seeders">{torrent.seeders}</td>
-
-      <td className="ab-col-leechers">{torrent.leechers}</td>
-
-      <td className="ab-col-flags">
-        {torrent.flags.length > 0 && (
-          <div className="ab-flags">
-            {torrent.flags.map((flag: string, index: number) => (
-              <span
-                key={`${torrent.torrentId}-${index}`}
-                className="ab-flag"
-                dangerouslySetInnerHTML={{ __html: flag }}
-              />
-            ))}
-          </div>
-        )}
-      </td>
-
-      <td className="ab-col-report">
-        <a
-          href={`/reports.php?action=report&type=torrent&id=${torrent.torrentId}`}
-          title="Report torrent"
-          className="ab-report-btn"
-        >
-          <Flag size={16} />
-        </a>
-      </td>
-    </>
+    <td className="ab-col-report">
+      <a
+        href={`/reports.php?action=report&type=torrent&id=${torrent.torrentId}`}
+        title="Report torrent"
+        className="ab-report-btn"
+      >
+        <Flag size={16} />
+      </a>
+    </td>
   );
 
-  // Render different columns based on table type
-  const renderTableSpecificCells = () => {
-    switch (tableType) {
-      case "anime":
-        return (
-          <>
-            <td className="ab-col-format">{torrent.format || ""}</td>
-
-            {showRegionColumn && <td className="ab-col-region">{torrent.region || ""}</td>}
-
-            <td className="ab-col-container">{torrent.container || ""}</td>
-
-            <td className="ab-col-video-codec">{torrent.videoCodec || ""}</td>
-
-            {!compactResolutionMode && <td className="ab-col-aspect-ratio">{torrent.aspectRatio || ""}</td>}
-
-            <td className="ab-col-resolution">{getCompactResolution()}</td>
-
-            <td className="ab-col-audio">{torrent.audio || ""}</td>
-
-            <td className="ab-col-audio-channels">{torrent.audioChannels || ""}</td>
-
-            {showDualAudioColumn && (
-              <td className="ab-col-dual-audio">
-                {torrent.hasDualAudio ? (
-                  <Check size={14} className="ab-dual-audio-check" />
-                ) : (
-                  <X size={14} className="ab-dual-audio-cross" />
-                )}
-              </td>
-            )}
-
-            <td className="ab-col-subtitles">{torrent.subtitles || ""}</td>
-          </>
-        );
-
-      case "printed_media":
-        return (
-          <>
-            <td className="ab-col-printed-type">{torrent.printedMediaType || ""}</td>
-
-            <td className="ab-col-translator">{torrent.translator || ""}</td>
-
-            <td className="ab-col-digital">
-              {torrent.isDigital ? (
-                <Check size={14} className="ab-digital-check" />
-              ) : (
-                <X size={14} className="ab-digital-cross" />
-              )}
-            </td>
-
-            <td className="ab-col-printed-format">{torrent.printedFormat || ""}</td>
-
-            <td className="ab-col-ongoing">
-              {torrent.isOngoing ? (
-                <Check size={14} className="ab-ongoing-check" />
-              ) : (
-                <X size={14} className="ab-ongoing-cross" />
-              )}
-            </td>
-          </>
-        );
-
-      case "games":
-        return (
-          <>
-            <td className="ab-col-game-type">{torrent.gameType || ""}</td>
-
-            <td className="ab-col-platform">{torrent.platform || ""}</td>
-
-            <td className="ab-col-game-region">{torrent.gameRegion || ""}</td>
-
-            <td className="ab-col-archived">
-              {torrent.isArchived ? (
-                <Check size={14} className="ab-archived-check" />
-              ) : (
-                <X size={14} className="ab-archived-cross" />
-              )}
-            </td>
-          </>
-        );
-
-      case "music":
-        return (
-          <>
-            <td className="ab-col-music-codec">{torrent.musicCodec || ""}</td>
-
-            <td className="ab-col-bitrate">{torrent.bitrate || ""}</td>
-
-            <td className="ab-col-media">{torrent.media || ""}</td>
-
-            <td className="ab-col-log">
-              {torrent.hasLog ? <Check size={14} className="ab-log-check" /> : <X size={14} className="ab-log-cross" />}
-            </td>
-
-            <td className="ab-col-cue">
-              {torrent.hasCue ? <Check size={14} className="ab-cue-check" /> : <X size={14} className="ab-cue-cross" />}
-            </td>
-          </>
-        );
-
-      default:
-        return null;
-    }
-  };
-
   return (
     <>
       {/* Main torrent row */}
-      <tr className={getRowClasses()} data-torrent-id={torrent.torrentId} onClick={handleRowClick}>
+      <tr
+        className={getRowClasses()}
+        data-torrent-id={torrent.torrentId}
+        title={torrent.redundancy?.reason}
+        onClick={handleRowClick}
+        onMouseEnter={handleMouseEnter}
+        onMouseLeave={handleMouseLeave}
+      >
         {commonRowStart}
-        {renderTableSpecificCells()}
+        {columns.map((id) => {
+          const definition = getColumnDefinition(id);
+          return (
+            <td key={id} className={definition.className}>
+              {definition.renderCell(torrent, { compactResolutionMode })}
+            </td>
+          );
+        })}
         {commonRowEnd}
       </tr>
 
       {/* Expanded details row */}
       {isExpanded && torrent.detailsHtml && (
-        <TorrentDetails torrentId={torrent.torrentId} groupId={torrent.groupId} detailsHtml={torrent.detailsHtml} />
+        <TorrentDetails
+          torrentId={torrent.torrentId}
+          groupId={torrent.groupId}
+          detailsHtml={torrent.detailsHtml}
+          initialTab={initialDetailsTab}
+          onTabChange={onDetailsTabChange && ((tab) => onDetailsTabChange(torrent.torrentId, tab))}
+        />
       )}
     </>
   );
@@ -326,20 +262,34 @@ export const TorrentRow = memo(TorrentRowComponent, (prevProps, nextProps) => {
     return false;
   }
 
-  // Compare table configuration that affects rendering
-  if (prevProps.tableType !== nextProps.tableType) {
+  // Compare selection state
+  if (prevProps.isSelected !== nextProps.isSelected) {
     return false;
   }
 
-  // Compare display options that affect columns
+  // Compare new-since-last-visit highlighting
+  if (prevProps.isNew !== nextProps.isNew) {
+    return false;
+  }
+
+  // Compare whether hovering prefetches details
   if (
-    prevProps.compactResolutionMode !== nextProps.compactResolutionMode ||
-    prevProps.showRegionColumn !== nextProps.showRegionColumn ||
-    prevProps.showDualAudioColumn !== nextProps.showDualAudioColumn
+    Boolean(prevProps.onHoverIntent) !== Boolean(nextProps.onHoverIntent) ||
+    Boolean(prevProps.onInspect) !== Boolean(nextProps.onInspect)
   ) {
     return false;
   }
 
+  // Compare keyboard focus
+  if (prevProps.isFocused !== nextProps.isFocused) {
+    return false;
+  }
+
+  // Compare column layout and display options that affect cells
+  if (prevProps.columns !== nextProps.columns || prevProps.compactResolutionMode !== nextProps.compactResolutionMode) {
+    return false;
+  }
+
   // Compare group styling
   if (prevProps.isOddGroup !== nextProps.isOddGroup) {
     return false;
@@ -369,6 +319,33 @@ export const TorrentRow = memo(TorrentRowComponent, (prevProps, nextProps) => {
     return false;
   }
 
+  // Compare quality profile score and highlighting
+  if (
+    prevProps.torrent.qualityScore !== nextProps.torrent.qualityScore ||
+    prevProps.torrent.isQualityBest !== nextProps.torrent.isQualityBest ||
+    prevProps.torrent.qualityMatches?.length !== nextProps.torrent.qualityMatches?.length
+  ) {
+    return false;
+  }
+
+  // Compare release group list membership
+  if (prevProps.torrent.releaseGroupStatus !== nextProps.torrent.releaseGroupStatus) {
+    return false;
+  }
+
+  // Compare health, which changes with the thresholds in settings
+  if (
+    prevProps.torrent.health?.status !== nextProps.torrent.health?.status ||
+    prevProps.torrent.health?.canRequestReseed !== nextProps.torrent.health?.canRequestReseed
+  ) {
+    return false;
+  }
+
+  // Compare duplicate and superseded marking
+  if (prevProps.torrent.redundancy?.reason !== nextProps.torrent.redundancy?.reason) {
+    return false;
+  }
+
   // If all critical props are the same, prevent re-render
   return true;
 });
@@ -1,17 +1,43 @@
 // ChevronDown, ChevronRight now imported in SectionHeader component
+import { CheckCheck, CheckSquare, Download, Filter, GitCompare, Keyboard } from "lucide-preact";
 import { Fragment } from "preact";
-import { useMemo } from "preact/hooks";
+import { useMemo, useRef, useState } from "preact/hooks";
 import { useSeaDexStore, useSeaDexUpdates } from "@/stores/seadex";
 import { useSettingsStore } from "@/stores/settings";
-import type { GroupedTorrents, TorrentTableProps } from "@/types/modern-table";
+import type { GroupedTorrents, ParsedTorrentRow, TorrentTableProps } from "@/types/modern-table";
 import { log, time, timeEnd } from "@/utils/logging";
+import { BulkDownloadStatus } from "./components/BulkDownloadStatus";
+import { ColumnLayoutMenu } from "./components/ColumnLayoutMenu";
+import { ComparisonPanel } from "./components/ComparisonPanel";
+import { ExportMenu } from "./components/ExportMenu";
+import { FilterBar } from "./components/FilterBar";
+import { GroupingSelect } from "./components/GroupingSelect";
+import { KeyboardHelp } from "./components/KeyboardHelp";
 import { SectionHeader } from "./components/SectionHeader";
+import { TorrentInspector } from "./components/TorrentInspector";
 import { detectTableType, extractGroupedTorrentData } from "./data-extraction";
+import { useBulkDownload } from "./hooks/useBulkDownload";
+import { useColumnLayout } from "./hooks/useColumnLayout";
+import { useCrossSeedIndex } from "./hooks/useCrossSeedIndex";
+import { useDetailsPrefetch } from "./hooks/useDetailsPrefetch";
+import { sectionItemKey, torrentItemKey, useKeyboardNavigation } from "./hooks/useKeyboardNavigation";
+import { useNewSinceLastVisit } from "./hooks/useNewSinceLastVisit";
+import { usePersistPageState, useSavedPageState } from "./hooks/usePageState";
+import { useQualityScoring } from "./hooks/useQualityScoring";
+import { useReleaseGroupLists } from "./hooks/useReleaseGroupLists";
+import { useReleaseRedundancy } from "./hooks/useReleaseRedundancy";
 import { useRowExpansion } from "./hooks/useRowExpansion";
-import { useSectionManagement } from "./hooks/useSectionManagement";
+import { isSectionHiddenByGroup, useSectionManagement } from "./hooks/useSectionManagement";
+import { useTorrentFiltering } from "./hooks/useTorrentFiltering";
+import { useTorrentGrouping } from "./hooks/useTorrentGrouping";
+import { useTorrentHealth } from "./hooks/useTorrentHealth";
+import { useTorrentSelection } from "./hooks/useTorrentSelection";
 import { useTorrentSorting } from "./hooks/useTorrentSorting";
 import { TorrentHeader } from "./TorrentHeader";
 import { TorrentRow } from "./TorrentRow";
+import { getPageTitle } from "./utils/bulkDownload";
+import { MAX_COMPARED_TORRENTS } from "./utils/comparison";
+import { getSectionStatsTorrents, summarizeSection } from "./utils/grouping";
 
 // TorrentTableProps is now imported from types.ts
 
@@ -23,7 +49,7 @@ import { TorrentRow } from "./TorrentRow";
  * It also reactively updates when SeaDex data becomes available.
  * Now supports section headers with group-aware sorting and section collapse/expand.
  */
-export function TorrentTable({ torrents, originalTable, isSeriesPage = false }: TorrentTableProps) {
+export function TorrentTable({ torrents, originalTable, isSeriesPage = false, title }: TorrentTableProps) {
   time("TorrentTable component render");
   log("TorrentTable component rendering", {
     torrentsLength: torrents.length,
@@ -31,11 +57,13 @@ export function TorrentTable({ torrents, originalTable, isSeriesPage = false }:
   });
   const {
     compactResolutionMode,
-    showRegionColumn,
-    showDualAudioColumn,
     mediainfoParserEnabled,
     sectionsCollapsedByDefault,
+    keyboardNavigationEnabled,
+    duplicateDetectionEnabled,
+    crossSeedFinderEnabled,
   } = useSettingsStore();
+  const containerRef = useRef<HTMLDivElement>(null);
   const seadexStore = useSeaDexStore();
 
   // Detect table type based on the original table
@@ -43,10 +71,19 @@ export function TorrentTable({ torrents, originalTable, isSeriesPage = false }:
     return detectTableType(originalTable);
   }, [originalTable]);
 
+  // User-configurable column layout for this table type
+  const { columns, availableColumns, reorderColumn, toggleColumn, resetColumns, exportLayouts, importLayouts } =
+    useColumnLayout(tableType);
+
   // Extract grouped data if we have the original table, otherwise use flat data
-  const groupedData = useMemo(() => {
+  const extractedData = useMemo(() => {
     if (originalTable) {
-      return extractGroupedTorrentData(originalTable, mediainfoParserEnabled);
+      return extractGroupedTorrentData(
+        originalTable,
+        mediainfoParserEnabled,
+        undefined,
+        duplicateDetectionEnabled || crossSeedFinderEnabled,
+      );
     }
 
     // Fallback: create a single section with all torrents
@@ -58,12 +95,22 @@ export function TorrentTable({ torrents, originalTable, isSeriesPage = false }:
         },
       ],
     } as GroupedTorrents;
-  }, [originalTable, torrents, mediainfoParserEnabled]);
+  }, [originalTable, torrents, mediainfoParserEnabled, duplicateDetectionEnabled, crossSeedFinderEnabled]);
+
+  // Regroup the torrents by release group, resolution, source or codec when chosen for this table type
+  const { groupingMode, setGroupingMode, groupedData } = useTorrentGrouping(extractedData, tableType);
+
+  // Remember the filelists for the cross-seed finder
+  useCrossSeedIndex(extractedData, title);
+
+  // State of this table when the page was last left, restored on reload and back/forward navigation
+  const { stateKey, savedState, savedActiveTabs, saveActiveTab } = useSavedPageState(extractedData, title);
 
   // Use custom hooks for state management
   const { collapsedSections, toggleSectionCollapsed, createToggleAllSections } = useSectionManagement(
     groupedData,
     sectionsCollapsedByDefault,
+    savedState?.collapsedSections,
   );
 
   // Section management is now handled by the useSectionManagement hook
@@ -94,7 +141,11 @@ export function TorrentTable({ torrents, originalTable, isSeriesPage = false }:
   }, [groupedData, seadexStore.data, seadexStore.lastUpdate]);
 
   // Use custom hooks for state management
-  const { expandedRows, toggleRowExpanded } = useRowExpansion(enhancedGroupedData, isSeriesPage);
+  const { expandedRows, toggleRowExpanded } = useRowExpansion(
+    enhancedGroupedData,
+    isSeriesPage,
+    savedState?.expandedRows,
+  );
 
   // Listen for SeaDex updates and force re-render
   useSeaDexUpdates(() => {
@@ -104,8 +155,62 @@ export function TorrentTable({ torrents, originalTable, isSeriesPage = false }:
 
   // Row expansion is now handled by the useRowExpansion hook
 
+  // Torrents added since the previous visit to their group
+  const { newTorrentIds, lastVisit, markAllSeen } = useNewSinceLastVisit(enhancedGroupedData);
+
+  // Score torrents against the active quality profile
+  const { scoredGroupedData } = useQualityScoring(enhancedGroupedData);
+
+  // Rate the swarm health of every torrent
+  const { healthGroupedData } = useTorrentHealth(scoredGroupedData);
+
+  // Dim duplicates and releases superseded by a newer version or batch
+  const { redundancyGroupedData } = useReleaseRedundancy(healthGroupedData);
+
   // Use custom hooks for state management
-  const { sortColumn, sortDirection, handleSort, sortedGroupedData } = useTorrentSorting(enhancedGroupedData);
+  const { sortKeys, pageSortKeys, handleSort, sortedGroupedData } = useTorrentSorting(
+    redundancyGroupedData,
+    tableType,
+    savedState?.sortKeys,
+  );
+
+  usePersistPageState(stateKey, groupedData, { expandedRows, collapsedSections, pageSortKeys });
+
+  // Pin preferred release groups and dim or hide blocked ones
+  const { groupListData, blockedHiddenCounts } = useReleaseGroupLists(sortedGroupedData);
+
+  // Client-side filters shared across the page, applied after sorting
+  const { filterStore, filterOptions, filteredGroupedData, hiddenCounts, totalHidden } =
+    useTorrentFiltering(groupListData);
+  const [showFilters, setShowFilters] = useState(filterStore.activeCount > 0);
+
+  // Ticked torrents, used for bulk downloads and side-by-side comparison
+  const { selectedIds, selectedEntries, selectedTorrents, toggleSelected, setSelected, clearSelection } =
+    useTorrentSelection(scoredGroupedData);
+  const { progress: downloadProgress, startDownload, cancelDownload, dismissProgress } = useBulkDownload();
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [inspectedTorrent, setInspectedTorrent] = useState<ParsedTorrentRow | null>(null);
+  const canCompare = selectedTorrents.length >= 2 && selectedTorrents.length <= MAX_COMPARED_TORRENTS;
+
+  const filteredTorrentIds = filteredGroupedData.sections.flatMap(({ torrents: sectionTorrents }) =>
+    sectionTorrents.map((torrent) => torrent.torrentId),
+  );
+  const allFilteredSelected = filteredTorrentIds.length > 0 && filteredTorrentIds.every((id) => selectedIds.has(id));
+
+  // Warm the cache with screenshots and peer lists before rows are expanded
+  const { onHoverIntent } = useDetailsPrefetch(filteredGroupedData, collapsedSections);
+
+  // Vim-style and arrow-key navigation over the visible rows
+  const { focusedKey, isHelpOpen, setIsHelpOpen } = useKeyboardNavigation({
+    enabled: keyboardNavigationEnabled,
+    groupedData: filteredGroupedData,
+    collapsedSections,
+    expandedRows,
+    isSeriesPage,
+    containerRef,
+    onToggleExpanded: toggleRowExpanded,
+    onToggleSection: toggleSectionCollapsed,
+  });
 
   // Create the toggle all sections function with current data
   const toggleAllSections = createToggleAllSections(sortedGroupedData);
@@ -130,72 +235,199 @@ export function TorrentTable({ torrents, originalTable, isSeriesPage = false }:
   }
 
   const result = (
-    <div className="ab-modern-table-container">
-      <table className="ab-modern-torrent-table torrent_table">
-        <TorrentHeader
-          sortColumn={sortColumn}
-          sortDirection={sortDirection}
-          onSort={handleSort}
-          tableType={tableType}
-          showRegionColumn={showRegionColumn}
-          showDualAudioColumn={showDualAudioColumn}
+    <>
+      <div className="ab-table-toolbar">
+        <button
+          type="button"
+          className={`ab-table-toolbar-btn ${filterStore.activeCount > 0 ? "ab-table-toolbar-btn-active" : ""}`}
+          onClick={() => setShowFilters(!showFilters)}
+          aria-expanded={showFilters}
+          title="Filter torrents"
+        >
+          <Filter size={14} />
+          Filters{filterStore.activeCount > 0 && ` (${filterStore.activeCount})`}
+        </button>
+        <GroupingSelect groupingMode={groupingMode} onChange={setGroupingMode} />
+        <ColumnLayoutMenu
+          availableColumns={availableColumns}
+          columns={columns}
+          onToggleColumn={toggleColumn}
+          onReset={resetColumns}
+          onExport={exportLayouts}
+          onImport={importLayouts}
+        />
+        <ExportMenu
+          title={[getPageTitle(), title].filter(Boolean).join(" - ")}
+          groupedData={filteredGroupedData}
+          columns={columns}
           compactResolutionMode={compactResolutionMode}
-          hasAnySections={hasAnySections}
-          allSectionsExpanded={allSectionsExpanded}
-          onToggleAllSections={toggleAllSections}
         />
-        <tbody>
-          {sortedGroupedData.sections.map(({ section, torrents: sectionTorrents }, sectionIndex) => {
-            const sectionId = section?.id || `section_${sectionIndex}`;
-
-            // Check if this section should be hidden due to a collapsed group
-            let isHiddenByGroup = false;
-            if (section?.type === "section") {
-              // Find the last group header before this section
-              for (let i = sectionIndex - 1; i >= 0; i--) {
-                const prevSection = sortedGroupedData.sections[i].section;
-                if (prevSection?.type === "group") {
-                  isHiddenByGroup = collapsedSections.has(prevSection.id);
-                  break;
-                }
-              }
-            }
-
-            const isCollapsed = section ? collapsedSections.has(sectionId) : false;
-            const isOddGroup = sectionIndex % 2 === 1;
-
-            return (
-              <Fragment key={sectionId}>
-                {section && !isHiddenByGroup && (
-                  <SectionHeader
-                    section={section}
-                    isCollapsed={isCollapsed}
-                    onToggle={() => toggleSectionCollapsed(sectionId)}
-                    isOddSection={isOddGroup}
-                  />
-                )}
-                {!isCollapsed &&
-                  !isHiddenByGroup &&
-                  sectionTorrents.map((torrent) => (
-                    <TorrentRow
-                      key={torrent.torrentId}
-                      torrent={torrent}
-                      isExpanded={expandedRows.has(torrent.torrentId)}
-                      onToggleExpanded={toggleRowExpanded}
-                      tableType={tableType}
-                      compactResolutionMode={compactResolutionMode}
-                      showRegionColumn={showRegionColumn}
-                      showDualAudioColumn={showDualAudioColumn}
-                      isOddGroup={isOddGroup}
-                      isSeriesPage={isSeriesPage}
+        <button
+          type="button"
+          className="ab-table-toolbar-btn"
+          onClick={() => setSelected(filteredTorrentIds, !allFilteredSelected)}
+          title={totalHidden > 0 ? "Select the torrents matching the active filters" : "Select every torrent"}
+        >
+          <CheckSquare size={14} />
+          {allFilteredSelected ? "Deselect all" : totalHidden > 0 ? "Select filtered" : "Select all"}
+        </button>
+        {selectedTorrents.length > 0 && (
+          <>
+            <button
+              type="button"
+              className="ab-table-toolbar-btn"
+              onClick={() => startDownload(selectedEntries)}
+              disabled={!!downloadProgress?.isRunning}
+              title="Download the selected .torrent files"
+            >
+              <Download size={14} />
+              Download ({selectedTorrents.length})
+            </button>
+            <button
+              type="button"
+              className={`ab-table-toolbar-btn ${isCompareOpen && canCompare ? "ab-table-toolbar-btn-active" : ""}`}
+              onClick={() => setIsCompareOpen(!isCompareOpen)}
+              disabled={!canCompare}
+              title={`Select 2-${MAX_COMPARED_TORRENTS} torrents to compare them`}
+            >
+              <GitCompare size={14} />
+              Compare
+            </button>
+            <button type="button" className="ab-table-toolbar-btn" onClick={clearSelection} title="Clear selection">
+              Clear
+            </button>
+          </>
+        )}
+        {newTorrentIds.size > 0 && (
+          <button
+            type="button"
+            className="ab-table-toolbar-btn ab-new-torrents-btn"
+            onClick={markAllSeen}
+            title={`New since your last visit${lastVisit ? ` on ${new Date(lastVisit).toLocaleString()}` : ""}. Click to mark them as seen`}
+          >
+            <CheckCheck size={14} />
+            {newTorrentIds.size} new · Mark all seen
+          </button>
+        )}
+        {keyboardNavigationEnabled && (
+          <button
+            type="button"
+            className="ab-table-toolbar-btn"
+            onClick={() => setIsHelpOpen(true)}
+            title="Keyboard shortcuts (?)"
+            aria-label="Keyboard shortcuts"
+          >
+            <Keyboard size={14} />
+          </button>
+        )}
+      </div>
+      {isHelpOpen && <KeyboardHelp onClose={() => setIsHelpOpen(false)} />}
+      {inspectedTorrent && <TorrentInspector torrent={inspectedTorrent} onClose={() => setInspectedTorrent(null)} />}
+      {downloadProgress && (
+        <BulkDownloadStatus progress={downloadProgress} onCancel={cancelDownload} onDismiss={dismissProgress} />
+      )}
+      {isCompareOpen && canCompare && (
+        <ComparisonPanel
+          torrents={selectedTorrents}
+          onRemove={toggleSelected}
+          onClose={() => setIsCompareOpen(false)}
+        />
+      )}
+      {showFilters && (
+        <FilterBar
+          filters={filterStore.filters}
+          filterOptions={filterOptions}
+          totalHidden={totalHidden}
+          onToggleValue={filterStore.toggleValue}
+          onToggleFlag={filterStore.toggleFlag}
+          onSetSizeRange={filterStore.setSizeRange}
+          onClear={filterStore.clear}
+        />
+      )}
+      <div className="ab-modern-table-container" ref={containerRef}>
+        <table className="ab-modern-torrent-table torrent_table">
+          <TorrentHeader
+            sortKeys={sortKeys}
+            onSort={handleSort}
+            columns={columns}
+            onReorderColumn={reorderColumn}
+            hasAnySections={hasAnySections}
+            allSectionsExpanded={allSectionsExpanded}
+            onToggleAllSections={toggleAllSections}
+          />
+          <tbody>
+            {filteredGroupedData.sections.map(({ section, torrents: sectionTorrents }, sectionIndex) => {
+              const sectionId = section?.id || `section_${sectionIndex}`;
+
+              // Check if this section should be hidden due to a collapsed group
+              const isHiddenByGroup = isSectionHiddenByGroup(
+                filteredGroupedData.sections,
+                sectionIndex,
+                collapsedSections,
+              );
+
+              const isCollapsed = section ? collapsedSections.has(sectionId) : false;
+              const isOddGroup = sectionIndex % 2 === 1;
+              const sectionTorrentIds = sectionTorrents.map((torrent) => torrent.torrentId);
+              const selectedInSection = sectionTorrentIds.filter((id) => selectedIds.has(id)).length;
+              const newInSection = sectionTorrentIds.filter((id) => newTorrentIds.has(id)).length;
+
+              return (
+                <Fragment key={sectionId}>
+                  {section && !isHiddenByGroup && (
+                    <SectionHeader
+                      section={section}
+                      isCollapsed={isCollapsed}
+                      onToggle={() => toggleSectionCollapsed(sectionId)}
+                      isOddSection={isOddGroup}
+                      hiddenCount={hiddenCounts[sectionIndex] + blockedHiddenCounts[sectionIndex]}
+                      newCount={newInSection}
+                      stats={summarizeSection(getSectionStatsTorrents(filteredGroupedData.sections, sectionIndex))}
+                      sectionId={sectionId}
+                      isFocused={focusedKey === sectionItemKey(sectionId)}
+                      selectionState={
+                        selectedInSection === 0
+                          ? "none"
+                          : selectedInSection === sectionTorrentIds.length
+                            ? "all"
+                            : "some"
+                      }
+                      onToggleSelection={
+                        sectionTorrentIds.length > 0
+                          ? () => setSelected(sectionTorrentIds, selectedInSection < sectionTorrentIds.length)
+                          : undefined
+                      }
                     />
-                  ))}
-              </Fragment>
-            );
-          })}
-        </tbody>
-      </table>
-    </div>
+                  )}
+                  {!isCollapsed &&
+                    !isHiddenByGroup &&
+                    sectionTorrents.map((torrent) => (
+                      <TorrentRow
+                        key={torrent.torrentId}
+                        torrent={torrent}
+                        isExpanded={expandedRows.has(torrent.torrentId)}
+                        onToggleExpanded={toggleRowExpanded}
+                        columns={columns}
+                        compactResolutionMode={compactResolutionMode}
+                        isOddGroup={isOddGroup}
+                        isSeriesPage={isSeriesPage}
+                        isSelected={selectedIds.has(torrent.torrentId)}
+                        isNew={newTorrentIds.has(torrent.torrentId)}
+                        onHoverIntent={isSeriesPage ? undefined : onHoverIntent}
+                        initialDetailsTab={savedActiveTabs[torrent.torrentId]}
+                        onDetailsTabChange={saveActiveTab}
+                        onInspect={torrent.downloadLink ? setInspectedTorrent : undefined}
+                        isFocused={focusedKey === torrentItemKey(torrent.torrentId)}
+                        onToggleSelected={toggleSelected}
+                      />
+                    ))}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </>
   );
 
   timeEnd("TorrentTable component render");
@@ -0,0 +1,587 @@
+import { Check, Star, X } from "lucide-preact";
+import type { ComponentChildren } from "preact";
+import type { ColumnId, ColumnLayouts, ParsedTorrentRow, SortColumn, TableType } from "@/types/modern-table";
+import { HealthBadge } from "./components/HealthBadge";
+import { SubtitleBadges } from "./components/SubtitleBadges";
+import { HEALTH_STATUSES } from "./utils/health";
+import { getSubtitleFormats, summarizeEncoderSettings } from "./utils/mediainfo";
+
+/**
+ * Options that affect how individual cells are rendered
+ */
+export interface CellRenderOptions {
+  compactResolutionMode: boolean;
+}
+
+/**
+ * Definition of a single configurable table column
+ */
+export interface ColumnDefinition {
+  id: ColumnId;
+  /** Human readable name used in the column menu */
+  label: string;
+  /** Class name shared by the header and body cells */
+  className: string;
+  /** Column to sort by when the header is clicked, null for display-only columns */
+  sortColumn: SortColumn;
+  /** Header content, defaults to the label */
+  header?: ComponentChildren;
+  renderCell: (torrent: ParsedTorrentRow, options: CellRenderOptions) => ComponentChildren;
+  /** Plain text value for exports, needed when renderCell doesn't return text */
+  getText?: (torrent: ParsedTorrentRow) => string;
+}
+
+/**
+ * Legacy display settings that shape the default anime layout
+ */
+export interface DefaultLayoutOptions {
+  showRegionColumn: boolean;
+  showDualAudioColumn: boolean;
+  compactResolutionMode: boolean;
+  qualityScoringEnabled: boolean;
+}
+
+export const TABLE_TYPES: TableType[] = ["anime", "printed_media", "games", "music"];
+
+const renderBooleanCell = (value: boolean | undefined, className: string) =>
+  value ? <Check size={14} className={`${className}-check`} /> : <X size={14} className={`${className}-cross`} />;
+
+const booleanText = (value: boolean | undefined) => (value ? "Yes" : "No");
+
+/**
+ * Flags are stored as site HTML (mostly icons), so use the text or the icon titles
+ */
+function flagText(html: string): string {
+  const element = document.createElement("div");
+  element.innerHTML = html;
+  const text = element.textContent?.trim();
+  if (text) return text;
+  return Array.from(element.querySelectorAll("img, [title]"))
+    .map((node) => node.getAttribute("title") || node.getAttribute("alt") || "")
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Format the resolution, converting p/i formats to width×height when compact mode is enabled
+ */
+export function formatResolution(torrent: ParsedTorrentRow, compactResolutionMode: boolean): string {
+  const resolution = torrent.resolution || "";
+
+  if (!compactResolutionMode) {
+    return resolution;
+  }
+
+  // If already in wxh format, keep as-is
+  if (resolution.match(/^\d+x\d+[ip]?$/)) {
+    return resolution;
+  }
+
+  // Convert p/i formats to wxh
+  const match = resolution.match(/^(\d+)([pi])$/);
+  if (match) {
+    const height = parseInt(match[1]);
+    const progressive = match[2];
+    const aspectRatio = torrent.aspectRatio || "";
+    let width: number;
+
+    // Use aspect ratio if available, otherwise assume 16:9
+    if (aspectRatio.includes(":")) {
+      const [w, h] = aspectRatio.split(":").map((n) => parseFloat(n));
+      width = Math.round((height * w) / h);
+    } else {
+      width = Math.round((height * 16) / 9);
+    }
+
+    return progressive === "i" ? `${width}x${height}i` : `${width}x${height}`;
+  }
+
+  return resolution;
+}
+
+const COLUMN_DEFINITIONS: Record<ColumnId, ColumnDefinition> = {
+  // Common columns
+  group: {
+    id: "group",
+    label: "Group",
+    className: "ab-col-group",
+    sortColumn: "group",
+    renderCell: (torrent) =>
+      torrent.releaseGroupStatus === "preferred" ? (
+        <span className="ab-preferred-group-name">
+          <Star size={12} className="ab-preferred-group-badge" aria-label="Preferred group" />
+          {torrent.group}
+        </span>
+      ) : (
+        torrent.group || ""
+      ),
+    getText: (torrent) => torrent.group || "",
+  },
+  size: {
+    id: "size",
+    label: "Size",
+    className: "ab-col-size",
+    sortColumn: "size",
+    renderCell: (torrent) => torrent.size,
+  },
+  snatches: {
+    id: "snatches",
+    label: "Snatches",
+    className: "ab-col-snatches",
+    sortColumn: "snatches",
+    header: <img src="/static/css/coalbytes/images/snatched.svg" alt="Snatches" title="Snatches" />,
+    renderCell: (torrent) => torrent.snatches,
+  },
+  seeders: {
+    id: "seeders",
+    label: "Seeders",
+    className: "ab-col-seeders",
+    sortColumn: "seeders",
+    header: <img src="/static/css/coalbytes/images/seeders.svg" alt="Seeders" title="Seeders" />,
+    renderCell: (torrent) => torrent.seeders,
+  },
+  leechers: {
+    id: "leechers",
+    label: "Leechers",
+    className: "ab-col-leechers",
+    sortColumn: "leechers",
+    header: <img src="/static/css/coalbytes/images/leechers.svg" alt="Leechers" title="Leechers" />,
+    renderCell: (torrent) => torrent.leechers,
+  },
+  health: {
+    id: "health",
+    label: "Health",
+    className: "ab-col-health",
+    sortColumn: "health",
+    renderCell: (torrent) => <HealthBadge torrent={torrent} />,
+    getText: (torrent) => (torrent.health ? HEALTH_STATUSES[torrent.health.status].label : ""),
+  },
+  flags: {
+    id: "flags",
+    label: "Flags",
+    className: "ab-col-flags",
+    sortColumn: "flags",
+    renderCell: (torrent) =>
+      torrent.flags.length > 0 && (
+        <div className="ab-flags">
+          {torrent.flags.map((flag: string, index: number) => (
+            <span
+              key={`${torrent.torrentId}-${index}`}
+              className="ab-flag"
+              dangerouslySetInnerHTML={{ __html: flag }}
+            />
+          ))}
+        </div>
+      ),
+    getText: (torrent) => torrent.flags.map(flagText).filter(Boolean).join(", "),
+  },
+  score: {
+    id: "score",
+    label: "Score",
+    className: "ab-col-score",
+    sortColumn: "score",
+    renderCell: (torrent) =>
+      torrent.qualityScore !== undefined && (
+        <span
+          className={`ab-quality-score ${torrent.qualityScore > 0 ? "ab-quality-score-positive" : torrent.qualityScore < 0 ? "ab-quality-score-negative" : ""}`}
+          title={torrent.qualityMatches?.length ? torrent.qualityMatches.join("\n") : "No rules matched"}
+        >
+          {torrent.qualityScore}
+        </span>
+      ),
+    getText: (torrent) => (torrent.qualityScore !== undefined ? String(torrent.qualityScore) : ""),
+  },
+
+  // Anime columns
+  format: {
+    id: "format",
+    label: "Source",
+    className: "ab-col-format",
+    sortColumn: "format",
+    renderCell: (torrent) => torrent.format || "",
+  },
+  region: {
+    id: "region",
+    label: "Region",
+    className: "ab-col-region",
+    sortColumn: "region",
+    renderCell: (torrent) => torrent.region || "",
+  },
+  container: {
+    id: "container",
+    label: "Container",
+    className: "ab-col-container",
+    sortColumn: "container",
+    renderCell: (torrent) => torrent.container || "",
+  },
+  videoCodec: {
+    id: "videoCodec",
+    label: "Codec",
+    className: "ab-col-video-codec",
+    sortColumn: "videoCodec",
+    renderCell: (torrent) => torrent.videoCodec || "",
+  },
+  aspectRatio: {
+    id: "aspectRatio",
+    label: "Aspect",
+    className: "ab-col-aspect-ratio",
+    sortColumn: null,
+    renderCell: (torrent) => torrent.aspectRatio || "",
+  },
+  resolution: {
+    id: "resolution",
+    label: "Resolution",
+    className: "ab-col-resolution",
+    sortColumn: "resolution",
+    renderCell: (torrent, { compactResolutionMode }) => formatResolution(torrent, compactResolutionMode),
+  },
+  audio: {
+    id: "audio",
+    label: "Audio",
+    className: "ab-col-audio",
+    sortColumn: "audio",
+    renderCell: (torrent) => torrent.audio || "",
+  },
+  audioChannels: {
+    id: "audioChannels",
+    label: "Channels",
+    className: "ab-col-audio-channels",
+    sortColumn: "audioChannels",
+    renderCell: (torrent) => torrent.audioChannels || "",
+  },
+  hasDualAudio: {
+    id: "hasDualAudio",
+    label: "Dual Audio",
+    className: "ab-col-dual-audio",
+    sortColumn: "hasDualAudio",
+    renderCell: (torrent) => renderBooleanCell(torrent.hasDualAudio, "ab-dual-audio"),
+    getText: (torrent) => booleanText(torrent.hasDualAudio),
+  },
+  subtitles: {
+    id: "subtitles",
+    label: "Subtitles",
+    className: "ab-col-subtitles",
+    sortColumn: "subtitles",
+    renderCell: (torrent) =>
+      torrent.subtitleAnalysis?.tracks.length ? (
+        <span className="ab-subtitles-cell">
+          {torrent.subtitles}
+          <SubtitleBadges analysis={torrent.subtitleAnalysis} />
+        </span>
+      ) : (
+        torrent.subtitles || ""
+      ),
+    getText: (torrent) => torrent.subtitles || "",
+  },
+
+  // MediaInfo columns, only filled for torrents whose details include a MediaInfo dump
+  bitDepth: {
+    id: "bitDepth",
+    label: "Bit depth",
+    className: "ab-col-bit-depth",
+    sortColumn: "bitDepth",
+    renderCell: (torrent) => (torrent.mediaInfo?.video?.bitDepth ? `${torrent.mediaInfo.video.bitDepth}-bit` : ""),
+  },
+  hdr: {
+    id: "hdr",
+    label: "HDR",
+    className: "ab-col-hdr",
+    sortColumn: "hdr",
+    renderCell: (torrent) => (torrent.mediaInfo?.video ? torrent.mediaInfo.video.hdrFormat || "SDR" : ""),
+  },
+  encoder: {
+    id: "encoder",
+    label: "Encoder",
+    className: "ab-col-encoder",
+    sortColumn: "encoder",
+    renderCell: (torrent) => torrent.mediaInfo?.video?.encoder || "",
+  },
+  encoderSettings: {
+    id: "encoderSettings",
+    label: "Encode settings",
+    className: "ab-col-encoder-settings",
+    sortColumn: "encoderSettings",
+    renderCell: (torrent) => {
+      const settings = torrent.mediaInfo?.video?.encoderSettings || "";
+      return settings && <span title={settings}>{summarizeEncoderSettings(settings) || "Custom"}</span>;
+    },
+    getText: (torrent) => summarizeEncoderSettings(torrent.mediaInfo?.video?.encoderSettings || ""),
+  },
+  audioLanguages: {
+    id: "audioLanguages",
+    label: "Audio languages",
+    className: "ab-col-audio-languages",
+    sortColumn: "audioLanguages",
+    renderCell: (torrent) => {
+      const { audio = [], audioLanguages = [] } = torrent.mediaInfo ?? {};
+      return (
+        audioLanguages.length > 0 && (
+          <span>
+            {audioLanguages.join(", ")}
+            {audio.some((track) => track.isDub) && <span className="ab-dub-badge">Dub</span>}
+          </span>
+        )
+      );
+    },
+    getText: (torrent) => torrent.mediaInfo?.audioLanguages?.join(", ") ?? "",
+  },
+  subtitleFormat: {
+    id: "subtitleFormat",
+    label: "Sub format",
+    className: "ab-col-subtitle-format",
+    sortColumn: "subtitleFormat",
+    renderCell: (torrent) => getSubtitleFormats(torrent.mediaInfo).join(", "),
+  },
+
+  // Printed Media columns
+  printedMediaType: {
+    id: "printedMediaType",
+    label: "Type",
+    className: "ab-col-printed-type",
+    sortColumn: "printedMediaType",
+    renderCell: (torrent) => torrent.printedMediaType || "",
+  },
+  translator: {
+    id: "translator",
+    label: "Translator",
+    className: "ab-col-translator",
+    sortColumn: "translator",
+    renderCell: (torrent) => torrent.translator || "",
+  },
+  isDigital: {
+    id: "isDigital",
+    label: "Digital",
+    className: "ab-col-digital",
+    sortColumn: "isDigital",
+    renderCell: (torrent) => renderBooleanCell(torrent.isDigital, "ab-digital"),
+    getText: (torrent) => booleanText(torrent.isDigital),
+  },
+  printedFormat: {
+    id: "printedFormat",
+    label: "Format",
+    className: "ab-col-printed-format",
+    sortColumn: "printedFormat",
+    renderCell: (torrent) => torrent.printedFormat || "",
+  },
+  isOngoing: {
+    id: "isOngoing",
+    label: "Ongoing",
+    className: "ab-col-ongoing",
+    sortColumn: "isOngoing",
+    renderCell: (torrent) => renderBooleanCell(torrent.isOngoing, "ab-ongoing"),
+    getText: (torrent) => booleanText(torrent.isOngoing),
+  },
+
+  // Games columns
+  gameType: {
+    id: "gameType",
+    label: "Type",
+    className: "ab-col-game-type",
+    sortColumn: "gameType",
+    renderCell: (torrent) => torrent.gameType || "",
+  },
+  platform: {
+    id: "platform",
+    label: "Platform",
+    className: "ab-col-platform",
+    sortColumn: "platform",
+    renderCell: (torrent) => torrent.platform || "",
+  },
+  gameRegion: {
+    id: "gameRegion",
+    label: "Region",
+    className: "ab-col-game-region",
+    sortColumn: "gameRegion",
+    renderCell: (torrent) => torrent.gameRegion || "",
+  },
+  isArchived: {
+    id: "isArchived",
+    label: "Archived",
+    className: "ab-col-archived",
+    sortColumn: "isArchived",
+    renderCell: (torrent) => renderBooleanCell(torrent.isArchived, "ab-archived"),
+    getText: (torrent) => booleanText(torrent.isArchived),
+  },
+
+  // Music columns
+  musicCodec: {
+    id: "musicCodec",
+    label: "Codec",
+    className: "ab-col-music-codec",
+    sortColumn: "musicCodec",
+    renderCell: (torrent) => torrent.musicCodec || "",
+  },
+  bitrate: {
+    id: "bitrate",
+    label: "Bitrate",
+    className: "ab-col-bitrate",
+    sortColumn: "bitrate",
+    renderCell: (torrent) => torrent.bitrate || "",
+  },
+  media: {
+    id: "media",
+    label: "Media",
+    className: "ab-col-media",
+    sortColumn: "media",
+    renderCell: (torrent) => torrent.media || "",
+  },
+  hasLog: {
+    id: "hasLog",
+    label: "Log",
+    className: "ab-col-log",
+    sortColumn: "hasLog",
+    renderCell: (torrent) => renderBooleanCell(torrent.hasLog, "ab-log"),
+    getText: (torrent) => booleanText(torrent.hasLog),
+  },
+  hasCue: {
+    id: "hasCue",
+    label: "Cue",
+    className: "ab-col-cue",
+    sortColumn: "hasCue",
+    renderCell: (torrent) => renderBooleanCell(torrent.hasCue, "ab-cue"),
+    getText: (torrent) => booleanText(torrent.hasCue),
+  },
+};
+
+const COMMON_END_COLUMNS: ColumnId[] = ["size", "snatches", "seeders", "leechers", "health", "flags", "score"];
+
+/**
+ * Opt-in columns, hidden by default since most torrents only have MediaInfo on group pages
+ */
+const MEDIAINFO_COLUMNS: ColumnId[] = [
+  "bitDepth",
+  "hdr",
+  "encoder",
+  "encoderSettings",
+  "audioLanguages",
+  "subtitleFormat",
+];
+
+/**
+ * All columns available for each table type, in their default order
+ */
+const AVAILABLE_COLUMNS: Record<TableType, ColumnId[]> = {
+  anime: [
+    "group",
+    "format",
+    "region",
+    "container",
+    "videoCodec",
+    "aspectRatio",
+    "resolution",
+    "audio",
+    "audioChannels",
+    "hasDualAudio",
+    "subtitles",
+    ...MEDIAINFO_COLUMNS,
+    ...COMMON_END_COLUMNS,
+  ],
+  printed_media: ["printedMediaType", "translator", "isDigital", "printedFormat", "isOngoing", ...COMMON_END_COLUMNS],
+  games: ["gameType", "platform", "gameRegion", "isArchived", ...COMMON_END_COLUMNS],
+  music: ["musicCodec", "bitrate", "media", "hasLog", "hasCue", ...COMMON_END_COLUMNS],
+};
+
+export function getColumnDefinition(id: ColumnId): ColumnDefinition {
+  return COLUMN_DEFINITIONS[id];
+}
+
+/**
+ * Plain text value of a cell, as shown in the table
+ */
+export function getColumnText(id: ColumnId, torrent: ParsedTorrentRow, options: CellRenderOptions): string {
+  const definition = COLUMN_DEFINITIONS[id];
+  if (definition.getText) {
+    return definition.getText(torrent);
+  }
+
+  const content = definition.renderCell(torrent, options);
+  return typeof content === "string" || typeof content === "number" ? String(content) : "";
+}
+
+/**
+ * Columns that can be shown for a table type; the score column requires quality scoring
+ */
+export function getAvailableColumns(tableType: TableType, qualityScoringEnabled = true): ColumnId[] {
+  return qualityScoringEnabled
+    ? AVAILABLE_COLUMNS[tableType]
+    : AVAILABLE_COLUMNS[tableType].filter((id) => id !== "score");
+}
+
+/**
+ * Build the default layout for a table type, honouring the legacy column toggles
+ */
+export function getDefaultColumnLayout(tableType: TableType, options: DefaultLayoutOptions): ColumnId[] {
+  return getAvailableColumns(tableType, options.qualityScoringEnabled).filter((id) => {
+    if (id === "region") return options.showRegionColumn;
+    if (id === "hasDualAudio") return options.showDualAudioColumn;
+    if (id === "aspectRatio") return !options.compactResolutionMode;
+    return !MEDIAINFO_COLUMNS.includes(id);
+  });
+}
+
+/**
+ * Resolve the layout to render: the saved layout if there is a usable one, otherwise the default
+ */
+export function resolveColumnLayout(
+  tableType: TableType,
+  layouts: ColumnLayouts,
+  options: DefaultLayoutOptions,
+): ColumnId[] {
+  const available = new Set(getAvailableColumns(tableType, options.qualityScoringEnabled));
+  const saved = (layouts[tableType] || []).filter((id) => available.has(id));
+
+  return saved.length > 0 ? saved : getDefaultColumnLayout(tableType, options);
+}
+
+/**
+ * Move a column to the position currently held by another column
+ */
+export function moveColumn(columns: ColumnId[], from: ColumnId, to: ColumnId): ColumnId[] {
+  if (from === to || !columns.includes(from) || !columns.includes(to)) return columns;
+
+  const targetIndex = columns.indexOf(to);
+  const next = columns.filter((id) => id !== from);
+  next.splice(targetIndex, 0, from);
+  return next;
+}
+
+/**
+ * Serialize layouts into the compact JSON blob used for sharing
+ */
+export function serializeColumnLayouts(layouts: ColumnLayouts): string {
+  return JSON.stringify(layouts);
+}
+
+/**
+ * Parse and validate a shared layout blob. Unknown table types and columns are dropped.
+ * Throws if the blob isn't valid JSON or contains no usable layout.
+ */
+export function parseColumnLayouts(json: string): ColumnLayouts {
+  const data: unknown = JSON.parse(json);
+
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("Layout must be a JSON object keyed by table type");
+  }
+
+  const layouts: ColumnLayouts = {};
+
+  for (const tableType of TABLE_TYPES) {
+    const columns = (data as Record<string, unknown>)[tableType];
+    if (!Array.isArray(columns)) continue;
+
+    const available = new Set<string>(AVAILABLE_COLUMNS[tableType]);
+    const valid = columns.filter(
+      (id, index): id is ColumnId => typeof id === "string" && available.has(id) && columns.indexOf(id) === index,
+    );
+
+    if (valid.length > 0) {
+      layouts[tableType] = valid;
+    }
+  }
+
+  if (Object.keys(layouts).length === 0) {
+    throw new Error("No valid column layouts found");
+  }
+
+  return layouts;
+}
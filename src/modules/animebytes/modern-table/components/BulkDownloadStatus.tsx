@@ -0,0 +1,56 @@
+import { Loader2, X } from "lucide-preact";
+import type { BulkDownloadProgress } from "../utils/bulkDownload";
+
+interface BulkDownloadStatusProps {
+  progress: BulkDownloadProgress;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Progress bar and failure list for a running or finished bulk download
+ */
+export function BulkDownloadStatus({ progress, onCancel, onDismiss }: BulkDownloadStatusProps) {
+  const { total, completed, failures, isRunning, isCancelled } = progress;
+  const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
+
+  let summary: string;
+  if (isRunning) {
+    summary = `Downloading ${Math.min(completed + 1, total)} of ${total}…`;
+  } else if (isCancelled) {
+    summary = `Cancelled after ${completed} of ${total}`;
+  } else {
+    summary = `Downloaded ${completed - failures.length} of ${total}`;
+  }
+
+  return (
+    <div className={`ab-bulk-download ${failures.length > 0 ? "ab-bulk-download-failed" : ""}`}>
+      <div className="ab-bulk-download-header">
+        {isRunning && <Loader2 size={14} className="animate-spin" />}
+        <span>{summary}</span>
+        {failures.length > 0 && <span className="ab-bulk-download-failures">{failures.length} failed</span>}
+        {isRunning ? (
+          <button type="button" className="ab-table-toolbar-btn" onClick={onCancel}>
+            Cancel
+          </button>
+        ) : (
+          <button type="button" className="ab-table-toolbar-btn" onClick={onDismiss} title="Dismiss">
+            <X size={14} />
+          </button>
+        )}
+      </div>
+      <div className="ab-bulk-download-bar">
+        <div className="ab-bulk-download-bar-fill" style={{ width: `${percentage}%` }} />
+      </div>
+      {failures.length > 0 && (
+        <ul className="ab-bulk-download-failure-list">
+          {failures.map((failure) => (
+            <li key={failure.torrentId}>
+              {failure.filename}: {failure.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
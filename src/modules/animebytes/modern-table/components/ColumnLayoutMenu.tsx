@@ -0,0 +1,126 @@
+import { Columns3 } from "lucide-preact";
+import { useEffect, useRef, useState } from "preact/hooks";
+import type { ColumnId } from "@/types/modern-table";
+import { err } from "@/utils/logging";
+import { getColumnDefinition } from "../columns";
+
+interface ColumnLayoutMenuProps {
+  availableColumns: ColumnId[];
+  columns: ColumnId[];
+  onToggleColumn: (id: ColumnId) => void;
+  onReset: () => void;
+  onExport: () => string;
+  onImport: (json: string) => void;
+}
+
+/**
+ * Dropdown for showing/hiding columns and sharing layouts as JSON
+ */
+export function ColumnLayoutMenu({
+  availableColumns,
+  columns,
+  onToggleColumn,
+  onReset,
+  onExport,
+  onImport,
+}: ColumnLayoutMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [importText, setImportText] = useState("");
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(onExport());
+    setMessage({ type: "success", text: "Layout copied to clipboard" });
+  };
+
+  const handleImport = () => {
+    try {
+      onImport(importText);
+      setImportText("");
+      setMessage({ type: "success", text: "Layout imported" });
+    } catch (error) {
+      err("Failed to import column layout", error);
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Invalid layout" });
+    }
+  };
+
+  const visibleColumns = new Set(columns);
+
+  return (
+    <div className="ab-column-menu" ref={menuRef}>
+      <button
+        type="button"
+        className="ab-table-toolbar-btn"
+        onClick={() => {
+          setIsOpen(!isOpen);
+          setMessage(null);
+        }}
+        aria-expanded={isOpen}
+        title="Choose columns (drag headers to reorder)"
+      >
+        <Columns3 size={14} />
+        Columns
+      </button>
+
+      {isOpen && (
+        <div className="ab-column-menu-dropdown">
+          <div className="ab-column-menu-list">
+            {availableColumns.map((id) => {
+              const definition = getColumnDefinition(id);
+              return (
+                <label key={id} className="ab-column-menu-item">
+                  <input type="checkbox" checked={visibleColumns.has(id)} onChange={() => onToggleColumn(id)} />
+                  {definition.label}
+                </label>
+              );
+            })}
+          </div>
+
+          <div className="ab-column-menu-hint">Drag column headers to reorder them.</div>
+
+          <div className="ab-column-menu-actions">
+            <button type="button" className="ab-table-toolbar-btn" onClick={handleCopy}>
+              Copy layout
+            </button>
+            <button type="button" className="ab-table-toolbar-btn" onClick={onReset}>
+              Reset
+            </button>
+          </div>
+
+          <textarea
+            className="ab-column-menu-import"
+            placeholder="Paste a shared layout here"
+            value={importText}
+            onInput={(e) => setImportText((e.target as HTMLTextAreaElement).value)}
+            rows={3}
+          />
+          <button
+            type="button"
+            className="ab-table-toolbar-btn"
+            onClick={handleImport}
+            disabled={importText.trim().length === 0}
+          >
+            Import layout
+          </button>
+
+          {message && <div className={`ab-column-menu-message ab-column-menu-${message.type}`}>{message.text}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
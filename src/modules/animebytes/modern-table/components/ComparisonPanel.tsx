@@ -0,0 +1,154 @@
+import { Images, Loader2, X } from "lucide-preact";
+import { Fragment } from "preact";
+import { useEffect, useMemo, useState } from "preact/hooks";
+import type { ParsedTorrentRow, ScreenshotItem } from "@/types/modern-table";
+import { err } from "@/utils/logging";
+import { fetchScreenshotsData } from "../details-extraction";
+import { buildComparisonGroups, buildComparisonSource } from "../utils/comparison";
+import { ScreenshotCompare } from "./ScreenshotCompare";
+
+interface ComparisonPanelProps {
+  torrents: ParsedTorrentRow[];
+  onRemove: (torrentId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Side-by-side comparison of the selected torrents, with differing rows highlighted
+ */
+export function ComparisonPanel({ torrents, onRemove, onClose }: ComparisonPanelProps) {
+  const [screenshots, setScreenshots] = useState<Record<string, ScreenshotItem[]>>({});
+  const [screenshotsLoading, setScreenshotsLoading] = useState(false);
+  const [isViewerOpen, setIsViewerOpen] = useState(false);
+
+  const groups = useMemo(() => buildComparisonGroups(torrents.map(buildComparisonSource)), [torrents]);
+
+  // Fetch screenshots for torrents that haven't been loaded yet
+  useEffect(() => {
+    const missing = torrents.filter((torrent) => !(torrent.torrentId in screenshots));
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    setScreenshotsLoading(true);
+
+    Promise.all(
+      missing.map(
+        async (torrent) =>
+          [torrent.torrentId, (await fetchScreenshotsData(torrent.torrentId, torrent.groupId)) ?? []] as const,
+      ),
+    )
+      // Results are keyed by torrent, so they stay valid when the selection changed meanwhile
+      .then((results) => setScreenshots((prev) => ({ ...prev, ...Object.fromEntries(results) })))
+      .catch((error) => err("Error loading comparison screenshots", error))
+      .finally(() => {
+        if (!cancelled) setScreenshotsLoading(false);
+      });
+
+    // The next run only shows the spinner again if it still has screenshots to fetch
+    return () => {
+      cancelled = true;
+      setScreenshotsLoading(false);
+    };
+  }, [torrents]);
+
+  // The nth screenshot of every torrent shares a row
+  const screenshotCount = Math.max(0, ...torrents.map((torrent) => screenshots[torrent.torrentId]?.length ?? 0));
+  const screenshotRows = Array.from({ length: screenshotCount }, (_, index) =>
+    torrents.map((torrent) => screenshots[torrent.torrentId]?.[index]),
+  );
+  const sourcesWithScreenshots = torrents.filter((torrent) => screenshots[torrent.torrentId]?.length).length;
+
+  return (
+    <div className="ab-compare-panel">
+      <div className="ab-compare-header">
+        <strong>Comparing {torrents.length} torrents</strong>
+        <span className="ab-compare-legend">Highlighted rows differ between torrents</span>
+        <button type="button" className="ab-table-toolbar-btn" onClick={onClose} title="Close comparison">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="ab-compare-scroll">
+        <table className="ab-compare-table">
+          <thead>
+            <tr>
+              <th />
+              {torrents.map((torrent) => (
+                <th key={torrent.torrentId}>
+                  <a href={torrent.detailsLink} title={torrent.name}>
+                    {torrent.group || torrent.name}
+                  </a>
+                  <button
+                    type="button"
+                    className="ab-compare-remove"
+                    onClick={() => onRemove(torrent.torrentId)}
+                    title="Remove from comparison"
+                  >
+                    <X size={12} />
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map((group) => (
+              <Fragment key={group.title}>
+                <tr className="ab-compare-group">
+                  <th colSpan={torrents.length + 1}>{group.title}</th>
+                </tr>
+                {group.rows.map((row) => (
+                  <tr key={row.label} className={row.differs ? "ab-compare-diff" : ""}>
+                    <th scope="row">{row.label}</th>
+                    {row.values.map((value, index) => (
+                      <td key={torrents[index].torrentId}>{value}</td>
+                    ))}
+                  </tr>
+                ))}
+              </Fragment>
+            ))}
+            <tr className="ab-compare-group">
+              <th colSpan={torrents.length + 1}>
+                Screenshots
+                {screenshotsLoading && <Loader2 size={12} className="animate-spin" />}
+                {!screenshotsLoading && sourcesWithScreenshots >= 2 && (
+                  <button
+                    type="button"
+                    className="ab-table-toolbar-btn ab-compare-screenshots-btn"
+                    onClick={() => setIsViewerOpen(true)}
+                    title="Compare screenshots with a wipe slider or flicker"
+                  >
+                    <Images size={12} />
+                    Compare screenshots
+                  </button>
+                )}
+              </th>
+            </tr>
+            {screenshotRows.map((row, rowIndex) => (
+              <tr key={row.map((screenshot) => screenshot?.id ?? "").join("-")} className="ab-compare-screenshots">
+                <th scope="row">#{rowIndex + 1}</th>
+                {row.map((screenshot, index) => (
+                  <td key={torrents[index].torrentId}>
+                    {screenshot && (
+                      <a href={screenshot.fullUrl} target="_blank" rel="noopener noreferrer">
+                        <img src={screenshot.thumbnailUrl} alt={screenshot.title} title={screenshot.title} />
+                      </a>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {!screenshotsLoading && screenshotCount === 0 && (
+              <tr>
+                <td colSpan={torrents.length + 1} className="ab-no-content">
+                  No screenshots found for the selected torrents.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {isViewerOpen && (
+        <ScreenshotCompare torrents={torrents} screenshots={screenshots} onClose={() => setIsViewerOpen(false)} />
+      )}
+    </div>
+  );
+}
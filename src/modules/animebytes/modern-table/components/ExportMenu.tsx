@@ -0,0 +1,112 @@
+import { Clipboard, FileDown, Share } from "lucide-preact";
+import { useEffect, useRef, useState } from "preact/hooks";
+import type { ColumnId, GroupedTorrents } from "@/types/modern-table";
+import { err, log } from "@/utils/logging";
+import { buildExportData, downloadTextFile, EXPORT_FORMATS, type ExportFormat } from "../utils/export";
+
+interface ExportMenuProps {
+  title: string;
+  groupedData: GroupedTorrents;
+  columns: ColumnId[];
+  compactResolutionMode: boolean;
+}
+
+/**
+ * Dropdown for copying or downloading the visible rows as CSV, JSON, Markdown or BBCode
+ */
+export function ExportMenu({ title, groupedData, columns, compactResolutionMode }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const rowCount = groupedData.sections.reduce((total, { torrents }) => total + torrents.length, 0);
+
+  const serialize = (format: ExportFormat) =>
+    EXPORT_FORMATS[format].serialize(buildExportData(title, groupedData, columns, { compactResolutionMode }));
+
+  const handleCopy = (format: ExportFormat) => {
+    try {
+      GM_setClipboard(serialize(format), "text");
+      setMessage({ type: "success", text: `Copied ${rowCount} torrents as ${EXPORT_FORMATS[format].label}` });
+      log("Copied table export", { format, rowCount });
+    } catch (error) {
+      err("Failed to copy table export", error);
+      setMessage({ type: "error", text: "Couldn't copy to the clipboard" });
+    }
+  };
+
+  const handleDownload = (format: ExportFormat) => {
+    try {
+      const { extension, mimeType } = EXPORT_FORMATS[format];
+      downloadTextFile(`${title || "torrents"}.${extension}`, serialize(format), mimeType);
+      setMessage({ type: "success", text: `Saved ${rowCount} torrents as ${EXPORT_FORMATS[format].label}` });
+    } catch (error) {
+      err("Failed to download table export", error);
+      setMessage({ type: "error", text: "Couldn't create the file" });
+    }
+  };
+
+  return (
+    <div className="ab-column-menu ab-export-menu" ref={menuRef}>
+      <button
+        type="button"
+        className="ab-table-toolbar-btn"
+        onClick={() => {
+          setIsOpen(!isOpen);
+          setMessage(null);
+        }}
+        aria-expanded={isOpen}
+        title="Export the visible torrents"
+      >
+        <Share size={14} />
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="ab-column-menu-dropdown">
+          <div className="ab-column-menu-hint">
+            {rowCount} visible torrents, in the current order and column layout.
+          </div>
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+            <div key={format} className="ab-export-format">
+              <span>{EXPORT_FORMATS[format].label}</span>
+              <button
+                type="button"
+                className="ab-table-toolbar-btn"
+                onClick={() => handleCopy(format)}
+                disabled={rowCount === 0}
+                title={`Copy as ${EXPORT_FORMATS[format].label}`}
+              >
+                <Clipboard size={12} />
+              </button>
+              <button
+                type="button"
+                className="ab-table-toolbar-btn"
+                onClick={() => handleDownload(format)}
+                disabled={rowCount === 0}
+                title={`Download as ${EXPORT_FORMATS[format].label}`}
+              >
+                <FileDown size={12} />
+              </button>
+            </div>
+          ))}
+          {message && <div className={`ab-column-menu-message ab-column-menu-${message.type}`}>{message.text}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
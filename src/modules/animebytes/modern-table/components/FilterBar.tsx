@@ -0,0 +1,108 @@
+import { X } from "lucide-preact";
+import type { FilterCategory, FilterFlag, TorrentFilters } from "@/types/modern-table";
+import { FILTER_CATEGORY_LABELS, FILTER_FLAG_LABELS, type FilterOptions } from "../utils/filtering";
+
+interface FilterBarProps {
+  filters: TorrentFilters;
+  filterOptions: FilterOptions;
+  totalHidden: number;
+  onToggleValue: (category: FilterCategory, value: string) => void;
+  onToggleFlag: (flag: FilterFlag) => void;
+  onSetSizeRange: (minSize: number | null, maxSize: number | null) => void;
+  onClear: () => void;
+}
+
+function parseSizeInput(value: string): number | null {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Filter chips built from the values present in the table, plus a size range
+ */
+export function FilterBar({
+  filters,
+  filterOptions,
+  totalHidden,
+  onToggleValue,
+  onToggleFlag,
+  onSetSizeRange,
+  onClear,
+}: FilterBarProps) {
+  const categories = (Object.keys(filterOptions.values) as FilterCategory[]).filter(
+    (category) => filterOptions.values[category].length > 0,
+  );
+  const flags = (Object.keys(filterOptions.flags) as FilterFlag[]).filter((flag) => filterOptions.flags[flag] > 0);
+
+  return (
+    <div className="ab-filter-bar">
+      {categories.map((category) => {
+        const selected = filters.values[category] || [];
+        return (
+          <div key={category} className="ab-filter-row">
+            <span className="ab-filter-label">{FILTER_CATEGORY_LABELS[category]}</span>
+            <div className="ab-filter-chips">
+              {filterOptions.values[category].map(({ value, count }) => (
+                <button
+                  key={value}
+                  type="button"
+                  className={`ab-filter-chip ${selected.includes(value) ? "ab-filter-chip-active" : ""}`}
+                  onClick={() => onToggleValue(category, value)}
+                >
+                  {value}
+                  <span className="ab-filter-chip-count">{count}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="ab-filter-row">
+        <span className="ab-filter-label">Other</span>
+        <div className="ab-filter-chips">
+          {flags.map((flag) => (
+            <button
+              key={flag}
+              type="button"
+              className={`ab-filter-chip ${filters.flags.includes(flag) ? "ab-filter-chip-active" : ""}`}
+              onClick={() => onToggleFlag(flag)}
+            >
+              {FILTER_FLAG_LABELS[flag]}
+              <span className="ab-filter-chip-count">{filterOptions.flags[flag]}</span>
+            </button>
+          ))}
+          <span className="ab-filter-size">
+            Size
+            <input
+              type="number"
+              min={0}
+              step="any"
+              placeholder="min"
+              value={filters.minSize ?? ""}
+              onChange={(e) => onSetSizeRange(parseSizeInput((e.target as HTMLInputElement).value), filters.maxSize)}
+            />
+            –
+            <input
+              type="number"
+              min={0}
+              step="any"
+              placeholder="max"
+              value={filters.maxSize ?? ""}
+              onChange={(e) => onSetSizeRange(filters.minSize, parseSizeInput((e.target as HTMLInputElement).value))}
+            />
+            GiB
+          </span>
+        </div>
+      </div>
+
+      <div className="ab-filter-summary">
+        {totalHidden > 0 && <span>{totalHidden} torrents hidden by filters</span>}
+        <button type="button" className="ab-table-toolbar-btn" onClick={onClear}>
+          <X size={12} />
+          Clear filters
+        </button>
+      </div>
+    </div>
+  );
+}
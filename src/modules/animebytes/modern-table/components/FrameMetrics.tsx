@@ -0,0 +1,199 @@
+import { AlertTriangle } from "lucide-preact";
+import { useEffect, useRef, useState } from "preact/hooks";
+import { err } from "@/utils/logging";
+import { useFrameMetrics } from "../hooks/useFrameMetrics";
+import { describeSimilarity, type FrameMetrics, formatPsnr, measureFramePair } from "../utils/imageMetrics";
+
+const formatSize = ({ width, height }: { width: number; height: number }) => `${width}x${height}`;
+
+function MetricsWarnings({ metrics }: { metrics: FrameMetrics }) {
+  return (
+    <>
+      {metrics.resolutionMismatch && (
+        <span className="ab-frame-metrics-warning" title="Compared after scaling to the smaller resolution">
+          <AlertTriangle size={12} /> {formatSize(metrics.sizes[0])} vs {formatSize(metrics.sizes[1])}
+        </span>
+      )}
+      {metrics.frameMismatch && (
+        <span className="ab-frame-metrics-warning" title="The screenshots are probably not of the same frame">
+          <AlertTriangle size={12} /> Misaligned
+        </span>
+      )}
+    </>
+  );
+}
+
+interface FrameMetricsBarProps {
+  leftUrl: string | undefined;
+  rightUrl: string | undefined;
+}
+
+/**
+ * PSNR/SSIM of the two screenshots currently being compared
+ */
+export function FrameMetricsBar({ leftUrl, rightUrl }: FrameMetricsBarProps) {
+  const { metrics, isLoading, error } = useFrameMetrics(leftUrl, rightUrl);
+
+  if (!leftUrl || !rightUrl) return null;
+
+  return (
+    <div className="ab-frame-metrics" aria-live="polite">
+      {isLoading && <span className="ab-frame-metrics-muted">Measuring…</span>}
+      {error && <span className="ab-frame-metrics-warning">Couldn't measure: {error}</span>}
+      {metrics && (
+        <>
+          <span title="Peak signal-to-noise ratio of the luma plane, higher is closer">
+            PSNR <strong>{formatPsnr(metrics.psnr)}</strong>
+          </span>
+          <span title="Structural similarity of the luma plane, 1 is identical">
+            SSIM <strong>{metrics.ssim.toFixed(4)}</strong>
+          </span>
+          <span className="ab-frame-metrics-muted">{describeSimilarity(metrics)}</span>
+          <MetricsWarnings metrics={metrics} />
+        </>
+      )}
+    </div>
+  );
+}
+
+interface DifferenceViewProps {
+  leftUrl: string | undefined;
+  rightUrl: string | undefined;
+}
+
+/**
+ * Amplified per-pixel luma difference; banding and filtering show up as structure, noise as grain
+ */
+export function DifferenceView({ leftUrl, rightUrl }: DifferenceViewProps) {
+  const { metrics, isLoading, error } = useFrameMetrics(leftUrl, rightUrl);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !metrics) return;
+
+    canvas.width = metrics.heatmap.width;
+    canvas.height = metrics.heatmap.height;
+    canvas.getContext("2d")?.putImageData(metrics.heatmap, 0, 0);
+  }, [metrics]);
+
+  if (!leftUrl || !rightUrl) {
+    return <div className="ab-screenshot-compare-missing">Both sources need this screenshot</div>;
+  }
+  if (error) {
+    return <div className="ab-screenshot-compare-missing">Couldn't build the difference map: {error}</div>;
+  }
+  if (isLoading || !metrics) {
+    return <div className="ab-screenshot-compare-missing">Building difference map…</div>;
+  }
+
+  return <canvas ref={canvasRef} className="ab-screenshot-compare-base" aria-label="Difference heatmap" />;
+}
+
+interface FrameMetricsTableProps {
+  /** Screenshot URLs of both sources per frame, null where one source lacks that frame */
+  pairs: Array<[string, string] | null>;
+  currentFrame: number;
+  onSelectFrame: (frame: number) => void;
+}
+
+type FrameResult = FrameMetrics | "error" | undefined;
+
+/**
+ * Metrics for every aligned frame of two sources. Frames are measured one at a time to keep the
+ * page responsive and the screenshot host unbothered.
+ */
+export function FrameMetricsTable({ pairs, currentFrame, onSelectFrame }: FrameMetricsTableProps) {
+  const [results, setResults] = useState<FrameResult[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setResults([]);
+
+    const measureAll = async () => {
+      for (const [frame, pair] of pairs.entries()) {
+        if (!pair) continue;
+
+        let result: FrameResult;
+        try {
+          result = await measureFramePair(...pair);
+        } catch (error) {
+          err("Failed to measure screenshot pair", error);
+          result = "error";
+        }
+        if (cancelled) return;
+        setResults((prev) => {
+          const next = [...prev];
+          next[frame] = result;
+          return next;
+        });
+      }
+    };
+    measureAll();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pairs]);
+
+  const measured = results.filter((result): result is FrameMetrics => typeof result === "object");
+  const finite = measured.filter((metrics) => Number.isFinite(metrics.psnr));
+  const averagePsnr =
+    finite.length > 0 ? finite.reduce((sum, metrics) => sum + metrics.psnr, 0) / finite.length : Number.NaN;
+  const averageSsim =
+    measured.length > 0 ? measured.reduce((sum, metrics) => sum + metrics.ssim, 0) / measured.length : Number.NaN;
+
+  return (
+    <div className="ab-frame-metrics-table-wrapper">
+      <table className="ab-frame-metrics-table">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>PSNR</th>
+            <th>SSIM</th>
+            <th>Notes</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[...pairs.entries()].map(([frame, pair]) => {
+            const result = results[frame];
+            return (
+              <tr key={`frame-${frame}`} className={frame === currentFrame ? "ab-frame-metrics-current" : ""}>
+                <td>
+                  <button type="button" className="ab-frame-metrics-jump" onClick={() => onSelectFrame(frame)}>
+                    {frame + 1}
+                  </button>
+                </td>
+                {typeof result === "object" ? (
+                  <>
+                    <td>{formatPsnr(result.psnr)}</td>
+                    <td>{result.ssim.toFixed(4)}</td>
+                    <td>
+                      <MetricsWarnings metrics={result} />
+                    </td>
+                  </>
+                ) : (
+                  <td colSpan={3} className="ab-frame-metrics-muted">
+                    {!pair ? "Missing in one source" : result === "error" ? "Couldn't measure" : "Measuring…"}
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+        {measured.length > 0 && (
+          <tfoot>
+            <tr>
+              <td>Avg</td>
+              <td>{Number.isNaN(averagePsnr) ? formatPsnr(Number.POSITIVE_INFINITY) : formatPsnr(averagePsnr)}</td>
+              <td>{averageSsim.toFixed(4)}</td>
+              <td className="ab-frame-metrics-muted">
+                {measured.length} of {pairs.length} frames
+              </td>
+            </tr>
+          </tfoot>
+        )}
+      </table>
+    </div>
+  );
+}
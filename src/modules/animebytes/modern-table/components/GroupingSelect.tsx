@@ -0,0 +1,31 @@
+import { Layers } from "lucide-preact";
+import type { GroupingMode } from "@/types/modern-table";
+import { GROUPING_MODES } from "../utils/grouping";
+
+interface GroupingSelectProps {
+  groupingMode: GroupingMode;
+  onChange: (mode: GroupingMode) => void;
+}
+
+/**
+ * Toolbar switcher for the property torrents are grouped into sections by
+ */
+export function GroupingSelect({ groupingMode, onChange }: GroupingSelectProps) {
+  return (
+    <label className="ab-table-toolbar-btn ab-grouping-select" title="Group torrents by">
+      <Layers size={14} />
+      Group by
+      <select
+        value={groupingMode}
+        onChange={(e) => onChange((e.target as HTMLSelectElement).value as GroupingMode)}
+        aria-label="Group torrents by"
+      >
+        {(Object.keys(GROUPING_MODES) as GroupingMode[]).map((mode) => (
+          <option key={mode} value={mode}>
+            {GROUPING_MODES[mode].label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,28 @@
+import { RefreshCw } from "lucide-preact";
+import type { ParsedTorrentRow } from "@/types/modern-table";
+import { getReseedRequestUrl, HEALTH_STATUSES } from "../utils/health";
+
+interface HealthBadgeProps {
+  torrent: ParsedTorrentRow;
+}
+
+/**
+ * Health badge for a torrent, with a reseed request shortcut for dying torrents many people snatched
+ */
+export function HealthBadge({ torrent }: HealthBadgeProps) {
+  const { health } = torrent;
+  if (!health) return null;
+
+  return (
+    <span className="ab-health">
+      <span className={`ab-health-badge ab-health-${health.status}`} title={health.reasons.join("\n")}>
+        {HEALTH_STATUSES[health.status].label}
+      </span>
+      {health.canRequestReseed && (
+        <a href={getReseedRequestUrl(torrent)} className="ab-health-reseed" title="Request a reseed">
+          <RefreshCw size={12} />
+        </a>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,73 @@
+import { X } from "lucide-preact";
+
+interface KeyboardHelpProps {
+  onClose: () => void;
+}
+
+const KEY_BINDINGS: Array<{ keys: string[]; description: string }> = [
+  { keys: ["j", "↓"], description: "Next row" },
+  { keys: ["k", "↑"], description: "Previous row" },
+  { keys: ["g", "G"], description: "First / last row" },
+  { keys: ["]", "J"], description: "Next section" },
+  { keys: ["[", "K"], description: "Previous section" },
+  { keys: ["Enter", "o"], description: "Toggle details, or collapse the focused section" },
+  { keys: ["x"], description: "Collapse or expand the focused row's section" },
+  { keys: ["h", "←"], description: "Previous details tab" },
+  { keys: ["l", "→"], description: "Next details tab" },
+  { keys: ["d"], description: "Download the focused torrent" },
+  { keys: ["p"], description: "Open the focused torrent's permalink" },
+  { keys: ["?"], description: "Show or hide this help" },
+  { keys: ["Esc"], description: "Close help / clear focus" },
+];
+
+/**
+ * Overlay listing the torrent table key bindings
+ */
+export function KeyboardHelp({ onClose }: KeyboardHelpProps) {
+  const handleBackdropClick = (e: Event) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const handleBackdropKeyDown = (e: KeyboardEvent) => {
+    if ((e.key === "Enter" || e.key === " ") && e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="ab-keyboard-help-overlay"
+      onClick={handleBackdropClick}
+      onKeyDown={handleBackdropKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Keyboard shortcuts"
+      tabIndex={-1}
+    >
+      <div className="ab-keyboard-help">
+        <div className="ab-keyboard-help-header">
+          <strong>Keyboard shortcuts</strong>
+          <button type="button" className="ab-table-toolbar-btn" onClick={onClose} title="Close">
+            <X size={14} />
+          </button>
+        </div>
+        <table>
+          <tbody>
+            {KEY_BINDINGS.map(({ keys, description }) => (
+              <tr key={description}>
+                <td>
+                  {keys.map((key) => (
+                    <kbd key={key}>{key}</kbd>
+                  ))}
+                </td>
+                <td>{description}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+import { ChevronLeft, ChevronRight, Gauge, X } from "lucide-preact";
+import { useEffect, useMemo, useRef, useState } from "preact/hooks";
+import type { ParsedTorrentRow, ScreenshotItem } from "@/types/modern-table";
+import { clearFrameMetricsCache } from "../utils/imageMetrics";
+import { DifferenceView, FrameMetricsBar, FrameMetricsTable } from "./FrameMetrics";
+
+interface ScreenshotCompareProps {
+  torrents: ParsedTorrentRow[];
+  screenshots: Record<string, ScreenshotItem[]>;
+  onClose: () => void;
+}
+
+type CompareMode = "slider" | "flicker" | "difference";
+
+const MODES: Array<[CompareMode, string]> = [
+  ["slider", "Slider"],
+  ["flicker", "Flicker"],
+  ["difference", "Difference"],
+];
+
+const sourceLabel = (torrent: ParsedTorrentRow) => torrent.group || torrent.name;
+
+/**
+ * Full screen screenshot comparison, aligned by screenshot index. Slider mode wipes between two
+ * sources, flicker mode swaps between all of them in place and difference mode maps where two of them
+ * disagree. PSNR/SSIM of the pair being compared are measured alongside.
+ */
+export function ScreenshotCompare({ torrents, screenshots, onClose }: ScreenshotCompareProps) {
+  const sources = torrents.filter((torrent) => (screenshots[torrent.torrentId]?.length ?? 0) > 0);
+  const frameCount = Math.max(0, ...sources.map((torrent) => screenshots[torrent.torrentId].length));
+
+  const [frame, setFrame] = useState(0);
+  const [mode, setMode] = useState<CompareMode>("slider");
+  const [leftIndex, setLeftIndex] = useState(0);
+  const [rightIndex, setRightIndex] = useState(Math.min(1, sources.length - 1));
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [position, setPosition] = useState(50);
+  const [showAllMetrics, setShowAllMetrics] = useState(false);
+  const stageRef = useRef<HTMLDivElement>(null);
+
+  const getScreenshot = (sourceIndex: number) => screenshots[sources[sourceIndex]?.torrentId]?.[frame];
+
+  const leftId = sources[leftIndex]?.torrentId;
+  const rightId = sources[rightIndex]?.torrentId;
+  const framePairs = useMemo(
+    () =>
+      Array.from({ length: frameCount }, (_, index): [string, string] | null => {
+        const left = screenshots[leftId]?.[index];
+        const right = screenshots[rightId]?.[index];
+        return left && right ? [left.fullUrl, right.fullUrl] : null;
+      }),
+    [screenshots, leftId, rightId, frameCount],
+  );
+
+  const changeFrame = (direction: 1 | -1) => {
+    if (frameCount === 0) return;
+    setFrame((prev) => (prev + direction + frameCount) % frameCount);
+  };
+
+  // Number keys pick the source shown (flicker) or the right side of the wipe (slider)
+  const showSource = (index: number) => {
+    if (index >= sources.length) return;
+    if (mode === "flicker") {
+      setActiveIndex(index);
+    } else if (index === leftIndex) {
+      setLeftIndex(rightIndex);
+      setRightIndex(index);
+    } else {
+      setRightIndex(index);
+    }
+  };
+
+  const swapOrCycle = () => {
+    if (mode === "flicker") {
+      setActiveIndex((prev) => (prev + 1) % sources.length);
+    } else {
+      setLeftIndex(rightIndex);
+      setRightIndex(leftIndex);
+    }
+  };
+
+  // Decoded screenshots are only worth keeping while the viewer is open
+  useEffect(() => clearFrameMetricsCache, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      // Leave the arrow keys to the source selects and the wipe range input
+      if (e.key !== "Escape" && (e.target as HTMLElement | null)?.closest?.("input, select")) return;
+
+      if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+        changeFrame(e.key === "ArrowLeft" ? -1 : 1);
+      } else if (/^[1-9]$/.test(e.key)) {
+        showSource(Number(e.key) - 1);
+      } else if (e.key === " ") {
+        swapOrCycle();
+      } else if (e.key === "m") {
+        setMode((prev) => MODES[(MODES.findIndex(([value]) => value === prev) + 1) % MODES.length][0]);
+      } else if (e.key === "Escape") {
+        onClose();
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  });
+
+  // Dragging across the image moves the wipe; clicking it in flicker mode shows the next source
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+
+    const updatePosition = (e: PointerEvent) => {
+      const rect = stage.getBoundingClientRect();
+      setPosition(Math.max(0, Math.min(100, ((e.clientX - rect.left) / rect.width) * 100)));
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (mode === "flicker") {
+        setActiveIndex((prev) => (prev + 1) % sources.length);
+        return;
+      }
+      if (mode !== "slider") return;
+      stage.setPointerCapture(e.pointerId);
+      updatePosition(e);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (mode === "slider" && stage.hasPointerCapture(e.pointerId)) {
+        updatePosition(e);
+      }
+    };
+
+    stage.addEventListener("pointerdown", handlePointerDown);
+    stage.addEventListener("pointermove", handlePointerMove);
+    return () => {
+      stage.removeEventListener("pointerdown", handlePointerDown);
+      stage.removeEventListener("pointermove", handlePointerMove);
+    };
+  }, [mode, sources.length]);
+
+  const renderImage = (sourceIndex: number, className: string, style?: Record<string, string>) => {
+    const screenshot = getScreenshot(sourceIndex);
+    return screenshot ? (
+      <img
+        key={sources[sourceIndex].torrentId}
+        src={screenshot.fullUrl}
+        alt={`${sourceLabel(sources[sourceIndex])} #${frame + 1}`}
+        className={className}
+        style={style}
+        draggable={false}
+      />
+    ) : (
+      <div key={sources[sourceIndex].torrentId} className={`${className} ab-screenshot-compare-missing`} style={style}>
+        No screenshot #{frame + 1} for {sourceLabel(sources[sourceIndex])}
+      </div>
+    );
+  };
+
+  return (
+    <div className="ab-screenshot-compare" role="dialog" aria-modal="true" aria-label="Screenshot comparison">
+      <div className="ab-screenshot-compare-toolbar">
+        <button type="button" className="ab-table-toolbar-btn" onClick={() => changeFrame(-1)} title="Previous (←)">
+          <ChevronLeft size={14} />
+        </button>
+        <span>
+          Screenshot {frame + 1} of {frameCount}
+        </span>
+        <button type="button" className="ab-table-toolbar-btn" onClick={() => changeFrame(1)} title="Next (→)">
+          <ChevronRight size={14} />
+        </button>
+
+        <div className="ab-screenshot-compare-modes">
+          {MODES.map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              className={`ab-table-toolbar-btn ${mode === value ? "ab-table-toolbar-btn-active" : ""}`}
+              onClick={() => setMode(value)}
+              aria-pressed={mode === value}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {mode !== "flicker" ? (
+          <div className="ab-screenshot-compare-sources">
+            <select
+              value={leftIndex}
+              onChange={(e) => setLeftIndex(Number((e.target as HTMLSelectElement).value))}
+              aria-label="Left source"
+            >
+              {sources.map((torrent, index) => (
+                <option key={torrent.torrentId} value={index}>
+                  {index + 1}. {sourceLabel(torrent)}
+                </option>
+              ))}
+            </select>
+            <span>vs</span>
+            <select
+              value={rightIndex}
+              onChange={(e) => setRightIndex(Number((e.target as HTMLSelectElement).value))}
+              aria-label="Right source"
+            >
+              {sources.map((torrent, index) => (
+                <option key={torrent.torrentId} value={index}>
+                  {index + 1}. {sourceLabel(torrent)}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : (
+          <div className="ab-screenshot-compare-sources">
+            {sources.map((torrent, index) => (
+              <button
+                key={torrent.torrentId}
+                type="button"
+                className={`ab-table-toolbar-btn ${activeIndex === index ? "ab-table-toolbar-btn-active" : ""}`}
+                onClick={() => setActiveIndex(index)}
+                aria-pressed={activeIndex === index}
+              >
+                {index + 1}. {sourceLabel(torrent)}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {mode !== "flicker" && (
+          <button
+            type="button"
+            className={`ab-table-toolbar-btn ${showAllMetrics ? "ab-table-toolbar-btn-active" : ""}`}
+            onClick={() => setShowAllMetrics(!showAllMetrics)}
+            aria-pressed={showAllMetrics}
+            title="Measure every screenshot of the two sources"
+          >
+            <Gauge size={14} /> All frames
+          </button>
+        )}
+
+        <button type="button" className="ab-table-toolbar-btn" onClick={onClose} title="Close (Esc)">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className={`ab-screenshot-compare-stage ab-screenshot-compare-${mode}`} ref={stageRef}>
+        {mode === "slider" ? (
+          <>
+            {renderImage(leftIndex, "ab-screenshot-compare-base")}
+            {renderImage(rightIndex, "ab-screenshot-compare-overlay", { clipPath: `inset(0 0 0 ${position}%)` })}
+            <div className="ab-screenshot-compare-divider" style={{ left: `${position}%` }} />
+            <span className="ab-screenshot-compare-label ab-screenshot-compare-label-left">
+              {sourceLabel(sources[leftIndex])}
+            </span>
+            <span className="ab-screenshot-compare-label ab-screenshot-compare-label-right">
+              {sourceLabel(sources[rightIndex])}
+            </span>
+          </>
+        ) : mode === "difference" ? (
+          <>
+            <DifferenceView leftUrl={getScreenshot(leftIndex)?.fullUrl} rightUrl={getScreenshot(rightIndex)?.fullUrl} />
+            <span className="ab-screenshot-compare-label ab-screenshot-compare-label-left">
+              {sourceLabel(sources[leftIndex])} vs {sourceLabel(sources[rightIndex])}
+            </span>
+          </>
+        ) : (
+          <>
+            {/* Every source stays mounted so switching doesn't wait for the image to load */}
+            {sources.map((_, index) =>
+              renderImage(
+                index,
+                index === 0 ? "ab-screenshot-compare-base" : "ab-screenshot-compare-overlay",
+                index === activeIndex ? {} : { visibility: "hidden" },
+              ),
+            )}
+            <span className="ab-screenshot-compare-label ab-screenshot-compare-label-left">
+              {activeIndex + 1}. {sourceLabel(sources[activeIndex])}
+            </span>
+          </>
+        )}
+      </div>
+
+      {mode !== "flicker" && (
+        <FrameMetricsBar leftUrl={getScreenshot(leftIndex)?.fullUrl} rightUrl={getScreenshot(rightIndex)?.fullUrl} />
+      )}
+
+      {mode !== "flicker" && showAllMetrics && (
+        <FrameMetricsTable pairs={framePairs} currentFrame={frame} onSelectFrame={setFrame} />
+      )}
+
+      {mode === "slider" && (
+        <input
+          type="range"
+          className="ab-screenshot-compare-range"
+          min={0}
+          max={100}
+          step={0.5}
+          value={position}
+          onInput={(e) => setPosition(Number((e.target as HTMLInputElement).value))}
+          aria-label="Wipe position"
+        />
+      )}
+
+      <div className="ab-screenshot-compare-hint">
+        ← → screenshot · 1–{sources.length} source · Space {mode === "flicker" ? "next source" : "swap sides"} · M
+        switch mode · Esc close
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,38 @@
 import { ChevronDown, ChevronRight } from "lucide-preact";
 import type { GroupHeader, TableSection } from "@/types/modern-table";
+import { formatTotalSize, type SectionStats } from "../utils/grouping";
 
 interface SectionHeaderProps {
   section: TableSection | GroupHeader;
   isCollapsed: boolean;
   onToggle: () => void;
   isOddSection: boolean;
+  hiddenCount?: number;
+  newCount?: number;
+  /** Aggregate stats, shown when torrents are grouped by a property */
+  stats?: SectionStats;
+  sectionId?: string;
+  isFocused?: boolean;
+  selectionState?: "none" | "some" | "all";
+  onToggleSelection?: () => void;
 }
 
 /**
  * Section header component with expand/collapse functionality
  */
-export function SectionHeader({ section, isCollapsed, onToggle, isOddSection }: SectionHeaderProps) {
+export function SectionHeader({
+  section,
+  isCollapsed,
+  onToggle,
+  isOddSection,
+  hiddenCount = 0,
+  newCount = 0,
+  stats,
+  sectionId,
+  isFocused = false,
+  selectionState = "none",
+  onToggleSelection,
+}: SectionHeaderProps) {
   // Group headers use their own class, section headers use alternating colors
   const headerClass =
     section.type === "group"
@@ -20,24 +41,68 @@ export function SectionHeader({ section, isCollapsed, onToggle, isOddSection }:
         ? "ab-section-header ab-group-odd"
         : "ab-section-header";
 
+  const hiddenBadge = hiddenCount > 0 && (
+    <span className="ab-section-hidden-count" title="Torrents hidden by the active filters">
+      {hiddenCount} hidden
+    </span>
+  );
+
+  const newBadge = newCount > 0 && (
+    <span className="ab-section-new-count" title="Torrents added since your last visit">
+      {newCount} new
+    </span>
+  );
+
+  const statsBadge = stats && (
+    <span className="ab-section-stats">
+      {stats.count} torrents · {formatTotalSize(stats.totalBytes)} · best {stats.bestSeeders} seeders
+    </span>
+  );
+
+  // Selects every visible torrent in the section without toggling its collapse
+  const selectionCheckbox = onToggleSelection && (
+    <input
+      type="checkbox"
+      className="ab-select-checkbox ab-section-select"
+      checked={selectionState === "all"}
+      indeterminate={selectionState === "some"}
+      onClick={(e) => e.stopPropagation()}
+      onChange={onToggleSelection}
+      title="Select section"
+      aria-label="Select section"
+    />
+  );
+
   return (
-    <tr className={`${headerClass} ab-section-header-clickable`} onClick={onToggle}>
+    <tr
+      className={`${headerClass} ab-section-header-clickable ${isFocused ? "ab-keyboard-focused" : ""}`}
+      data-section-id={sectionId}
+      onClick={onToggle}
+    >
       <td colSpan={100}>
         {section.type === "group" && section.fullHtml ? (
           // Render full HTML content for group headers
           <div className="ab-section-content-container">
+            {selectionCheckbox}
             <div className="ab-section-chevron-container">
               {isCollapsed ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
             </div>
             <div dangerouslySetInnerHTML={{ __html: section.fullHtml }} />
+            {statsBadge}
+            {newBadge}
+            {hiddenBadge}
           </div>
         ) : (
           // Simple text display for section headers with newline support
           <div className="ab-section-content-container">
+            {selectionCheckbox}
             <div className="ab-section-chevron-container-text">
               {isCollapsed ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
             </div>
             <strong className="ab-section-title-preformatted">{section.title}</strong>
+            {statsBadge}
+            {newBadge}
+            {hiddenBadge}
           </div>
         )}
       </td>
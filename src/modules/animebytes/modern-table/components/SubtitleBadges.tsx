@@ -0,0 +1,33 @@
+import type { SubtitleAnalysis } from "@/types/modern-table";
+import { SUBTITLE_KINDS } from "../utils/subtitles";
+
+interface SubtitleBadgesProps {
+  analysis: SubtitleAnalysis;
+}
+
+/**
+ * Compact badges for the kinds and sources of a torrent's subtitle tracks
+ */
+export function SubtitleBadges({ analysis }: SubtitleBadgesProps) {
+  if (analysis.tracks.length === 0) return null;
+
+  return (
+    <span className="ab-subtitle-badges">
+      {analysis.kinds.map((kind) => (
+        <span key={kind} className={`ab-subtitle-badge ab-subtitle-badge-${kind}`} title={SUBTITLE_KINDS[kind].label}>
+          {SUBTITLE_KINDS[kind].shortLabel}
+        </span>
+      ))}
+      {analysis.hasOfficial && (
+        <span className="ab-subtitle-badge ab-subtitle-badge-official" title="Official subtitles">
+          Official
+        </span>
+      )}
+      {analysis.hasFansub && (
+        <span className="ab-subtitle-badge ab-subtitle-badge-fansub" title="Fansubs">
+          Fansub
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,188 @@
+import { FileSearch, X } from "lucide-preact";
+import { useEffect, useMemo, useState } from "preact/hooks";
+import type { ParsedTorrentRow } from "@/types/modern-table";
+import { err } from "@/utils/logging";
+import { formatTotalSize } from "../utils/grouping";
+import {
+  fetchTorrentFile,
+  inspectTorrentFile,
+  type TorrentFileEntry,
+  type TorrentFileInfo,
+} from "../utils/torrentFile";
+
+interface TorrentInspectorProps {
+  torrent: ParsedTorrentRow;
+  onClose: () => void;
+}
+
+interface FileTreeNode {
+  name: string;
+  size: number;
+  children: Map<string, FileTreeNode>;
+}
+
+function buildFileTree(files: TorrentFileEntry[]): FileTreeNode {
+  const root: FileTreeNode = { name: "", size: 0, children: new Map() };
+
+  for (const { path, length } of files) {
+    let node = root;
+    node.size += length;
+    for (const part of path) {
+      let child = node.children.get(part);
+      if (!child) {
+        child = { name: part, size: 0, children: new Map() };
+        node.children.set(part, child);
+      }
+      child.size += length;
+      node = child;
+    }
+  }
+
+  return root;
+}
+
+const formatExactSize = (bytes: number) => `${bytes.toLocaleString()} bytes`;
+
+function FileTreeEntry({ node, depth }: { node: FileTreeNode; depth: number }) {
+  const size = (
+    <span className="ab-inspector-size" title={formatExactSize(node.size)}>
+      {formatTotalSize(node.size)} <span className="ab-inspector-bytes">({formatExactSize(node.size)})</span>
+    </span>
+  );
+
+  if (node.children.size === 0) {
+    return (
+      <li className="ab-inspector-file">
+        <span>{node.name}</span>
+        {size}
+      </li>
+    );
+  }
+
+  return (
+    <li>
+      <details open={depth < 2}>
+        <summary className="ab-inspector-folder">
+          <span>{node.name}/</span>
+          {size}
+        </summary>
+        <ul>
+          {[...node.children.values()].map((child) => (
+            <FileTreeEntry key={child.name} node={child} depth={depth + 1} />
+          ))}
+        </ul>
+      </details>
+    </li>
+  );
+}
+
+/**
+ * Overlay showing the metadata and file tree of a torrent's .torrent file, decoded in the browser
+ */
+export function TorrentInspector({ torrent, onClose }: TorrentInspectorProps) {
+  const [info, setInfo] = useState<TorrentFileInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setInfo(null);
+    setError(null);
+
+    fetchTorrentFile(new URL(torrent.downloadLink, window.location.origin).href)
+      .then(inspectTorrentFile)
+      .then((result) => {
+        if (!isCancelled) setInfo(result);
+      })
+      .catch((error) => {
+        err("Failed to inspect torrent file", error);
+        if (!isCancelled) setError(error instanceof Error ? error.message : "Couldn't read the torrent file");
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [torrent.downloadLink]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const fileTree = useMemo(() => (info ? buildFileTree(info.files) : null), [info]);
+
+  const handleBackdropClick = (e: Event) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const handleBackdropKeyDown = (e: KeyboardEvent) => {
+    if ((e.key === "Enter" || e.key === " ") && e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const details: Array<[string, string]> = info
+    ? [
+        ["Info-hash", info.infoHash],
+        ["Total size", `${formatTotalSize(info.totalSize)} (${formatExactSize(info.totalSize)})`],
+        ["Files", String(info.files.length)],
+        ["Pieces", `${info.pieceCount.toLocaleString()} × ${formatTotalSize(info.pieceLength)}`],
+        ["Private", info.isPrivate ? "Yes" : "No"],
+        ["Created by", info.createdBy ?? "Unknown"],
+        ["Created on", info.creationDate?.toLocaleString() ?? "Unknown"],
+        ...(info.source ? [["Source", info.source] as [string, string]] : []),
+        ...(info.comment ? [["Comment", info.comment] as [string, string]] : []),
+      ]
+    : [];
+
+  return (
+    <div
+      className="ab-inspector-overlay"
+      onClick={handleBackdropClick}
+      onKeyDown={handleBackdropKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Torrent file inspector"
+      tabIndex={-1}
+    >
+      <div className="ab-inspector">
+        <div className="ab-inspector-header">
+          <strong>
+            <FileSearch size={14} /> {info?.name || torrent.name.replace(/^»\s*/, "")}
+          </strong>
+          <button type="button" className="ab-table-toolbar-btn" onClick={onClose} title="Close">
+            <X size={14} />
+          </button>
+        </div>
+
+        {error && <div className="ab-inspector-error">{error}</div>}
+        {!info && !error && <div className="ab-loading">Reading torrent file...</div>}
+
+        {info && fileTree && (
+          <>
+            <table className="ab-inspector-details">
+              <tbody>
+                {details.map(([label, value]) => (
+                  <tr key={label}>
+                    <th>{label}</th>
+                    <td>{value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <ul className="ab-inspector-tree">
+              {[...fileTree.children.values()].map((child) => (
+                <FileTreeEntry key={child.name} node={child} depth={0} />
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,16 @@
 import { parseMediaInfo } from "mi-parser";
 import type { GroupedTorrents, GroupHeader, ParsedTorrentRow, TableSection, TableType } from "@/types/modern-table";
 import { err, log } from "@/utils/logging";
+import { extractFilelist, extractUploadDescription } from "./details-extraction";
+import {
+  buildStructuredMediaInfo,
+  detectDubTracks,
+  getHdrFormats,
+  getTrackField,
+  normalizeSubtitleFormat,
+  type StructuredMediaInfo,
+} from "./utils/mediainfo";
+import { analyzeSubtitles } from "./utils/subtitles";
 
 /**
  * Detects the table type based on context (series page table ID or torrents page title)
@@ -75,13 +85,15 @@ export function detectTableType(table?: HTMLTableElement): TableType {
  * Extracts torrent data from the original HTML table, converting it to clean JavaScript objects.
  * This is the "data extraction" phase of the declarative takeover approach.
  * Now also extracts section headers and groups torrents by sections.
+ * Filelists are only kept when keepFilelists is set, as only duplicate detection and the cross-seed finder use them.
  */
 export function extractTorrentData(
   table: HTMLTableElement,
   mediainfoParserEnabled: boolean = true,
   tableType?: TableType,
+  keepFilelists: boolean = false,
 ): ParsedTorrentRow[] {
-  const groupedData = extractGroupedTorrentData(table, mediainfoParserEnabled, tableType);
+  const groupedData = extractGroupedTorrentData(table, mediainfoParserEnabled, tableType, keepFilelists);
 
   // Flatten the grouped data into a simple array for backward compatibility
   const allTorrents: ParsedTorrentRow[] = [];
@@ -99,6 +111,7 @@ export function extractGroupedTorrentData(
   table: HTMLTableElement,
   mediainfoParserEnabled: boolean = true,
   tableType?: TableType,
+  keepFilelists: boolean = false,
 ): GroupedTorrents {
   const allRows = Array.from(table.querySelectorAll("tr")) as HTMLTableRowElement[];
   const sections: Array<{ section: TableSection | GroupHeader | null; torrents: ParsedTorrentRow[] }> = [];
@@ -179,7 +192,7 @@ export function extractGroupedTorrentData(
     }
     // Check if this is a torrent row (both group_torrent and torrent classes for search pages)
     if (row.classList.contains("group_torrent") || row.classList.contains("torrent")) {
-      const torrent = parseTorrentRow(row, mediainfoParserEnabled, actualTableType);
+      const torrent = parseTorrentRow(row, mediainfoParserEnabled, actualTableType, keepFilelists);
       if (torrent) {
         // Add section information to the torrent
         if (currentSection) {
@@ -243,6 +256,7 @@ function parseTorrentRow(
   row: HTMLTableRowElement,
   mediainfoParserEnabled: boolean = true,
   tableType: TableType = "anime",
+  keepFilelists: boolean = false,
 ): ParsedTorrentRow | null {
   try {
     // Get the main torrent cell (first td)
@@ -392,8 +406,24 @@ function parseTorrentRow(
     }
 
     // Parse media info if available and enabled
-    if (detailsRow && mediainfoParserEnabled) {
-      parseMediaInfoFromDetails(detailsRow, torrentId, parsed);
+    const mediaInfo =
+      detailsRow && mediainfoParserEnabled ? parseMediaInfoFromDetails(detailsRow, torrentId, parsed) : null;
+
+    // Uploader and upload date, used for the torrent health age check
+    if (detailsRow) {
+      const { uploader, uploadDate } = extractUploadDescription(detailsRow);
+      parsed.uploader = uploader.name;
+      parsed.uploadTime = uploadDate.absolute || uploadDate.relative;
+    }
+
+    // Only duplicate detection and the cross-seed finder need the filelist, so don't keep it on every row otherwise
+    if (detailsRow && keepFilelists) {
+      parsed.filelist = extractFilelist(detailsRow, torrentId);
+    }
+
+    // Classify subtitle tracks for the badges in the subtitles column, reusing the parsed MediaInfo
+    if (mediaInfo) {
+      parsed.subtitleAnalysis = analyzeSubtitles(mediaInfo, parsed.filelist ?? []);
     }
 
     return parsed;
@@ -836,20 +866,24 @@ function extractFlags(mainCell: Element, parsed: ParsedTorrentRow): void {
 }
 
 /**
- * Parse MediaInfo from details row if available
+ * Parse MediaInfo from details row if available, returning the structured tracks for reuse
  */
-function parseMediaInfoFromDetails(detailsRow: HTMLElement, torrentId: string, parsed: ParsedTorrentRow): void {
+function parseMediaInfoFromDetails(
+  detailsRow: HTMLElement,
+  torrentId: string,
+  parsed: ParsedTorrentRow,
+): StructuredMediaInfo | null {
   try {
     const escapedId = CSS.escape(`${torrentId}_mediainfo`);
     const mediainfoElement = detailsRow.querySelector(`#${escapedId} .spoiler .codeBox pre`);
 
-    if (!mediainfoElement) return;
+    if (!mediainfoElement) return null;
 
     const mediainfoText = mediainfoElement.textContent?.trim();
-    if (!mediainfoText) return;
+    if (!mediainfoText) return null;
 
     const parsedMediaInfo = parseMediaInfo(mediainfoText);
-    if (!parsedMediaInfo) return;
+    if (!parsedMediaInfo) return null;
 
     // Update video information
     if (parsedMediaInfo.video?.[0]) {
@@ -902,14 +936,6 @@ function parseMediaInfoFromDetails(detailsRow: HTMLElement, torrentId: string, p
         };
         parsed.audioChannels = channelMap[primaryAudio.channels] || primaryAudio.channels.toString();
       }
-
-      // Check for dual audio
-      const languages = new Set(
-        parsedMediaInfo.audio.map((track) => track.language).filter((lang) => lang && lang !== "Undefined"),
-      );
-      if (languages.size > 1) {
-        parsed.hasDualAudio = true;
-      }
     }
 
     // Update container information
@@ -922,6 +948,21 @@ function parseMediaInfoFromDetails(detailsRow: HTMLElement, torrentId: string, p
       parsed.container = containerMap[parsedMediaInfo.general.format] || parsedMediaInfo.general.format;
     }
 
+    // HDR, encoder and track titles come from the structured tracks shared with the MediaInfo tab
+    const structured = buildStructuredMediaInfo(mediainfoText, parsedMediaInfo);
+    const videoTrack = structured.video[0];
+    const audioTracks = (parsedMediaInfo.audio ?? []).map((track, index) => ({
+      track,
+      language: track.language || "",
+      title: getTrackField(structured.audio[index], "title"),
+    }));
+    const { languages, isDub } = detectDubTracks(audioTracks);
+
+    // The title only hints at dual audio; the actual track languages are authoritative
+    if (languages.length > 0) {
+      parsed.hasDualAudio = languages.length > 1;
+    }
+
     // Store the full mediaInfo for advanced features
     parsed.mediaInfo = {
       video: parsedMediaInfo.video?.[0]
@@ -931,20 +972,31 @@ function parseMediaInfoFromDetails(detailsRow: HTMLElement, torrentId: string, p
             width: parsedMediaInfo.video[0].width || 0,
             height: parsedMediaInfo.video[0].height || 0,
             framerate: String(parsedMediaInfo.video[0].frameRate || ""),
+            bitDepth: parsedMediaInfo.video[0].bitDepth || 0,
+            hdrFormat: videoTrack ? getHdrFormats(videoTrack).join(", ") : "",
+            encoder: getTrackField(videoTrack, "writingLibrary"),
+            encoderSettings: getTrackField(videoTrack, "encodingSettings"),
           }
         : undefined,
-      audio: parsedMediaInfo.audio?.map((track) => ({
+      audio: audioTracks.map(({ track, language, title }, index) => ({
         codec: track.format || "",
         bitrate: String(track.bitRate || ""),
         channels: track.channels?.toString() || "",
-        language: track.language || "",
+        language,
+        title,
+        isDub: isDub[index],
       })),
+      audioLanguages: languages,
       subtitles: parsedMediaInfo.text?.map((track) => ({
         language: track.language || "",
         type: track.format || "",
+        format: normalizeSubtitleFormat(track.format || ""),
       })),
     };
+
+    return structured;
   } catch (error) {
     err(`Error parsing mediainfo for torrent ${torrentId}:`, error);
+    return null;
   }
 }
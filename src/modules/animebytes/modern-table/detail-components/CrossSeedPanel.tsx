@@ -0,0 +1,79 @@
+import { Link2 } from "lucide-preact";
+import { useMemo } from "preact/hooks";
+import { getStoredFilelists } from "@/stores/filelists";
+import type { FilelistItem } from "@/types/modern-table";
+import { type CrossSeedMatch, findCrossSeeds } from "../utils/crossSeed";
+
+interface CrossSeedPanelProps {
+  torrentId: string;
+  groupId: string;
+  filelist: FilelistItem[];
+}
+
+function MatchLink({ match, groupId }: { match: CrossSeedMatch; groupId: string }) {
+  return (
+    <>
+      <a href={match.link} className="ab-cross-seed-link">
+        {match.label}
+      </a>
+      {match.groupId !== groupId && match.groupTitle && (
+        <span className="ab-cross-seed-group"> in {match.groupTitle}</span>
+      )}
+    </>
+  );
+}
+
+/**
+ * Torrents on this page or in recently viewed groups that share files with this one, by name and size
+ */
+export function CrossSeedPanel({ torrentId, groupId, filelist }: CrossSeedPanelProps) {
+  const matches = useMemo(() => findCrossSeeds(torrentId, filelist, getStoredFilelists()), [torrentId, filelist]);
+  if (matches.length === 0) return null;
+
+  const complete = matches.filter((match) => match.isComplete);
+  const partial = matches.filter((match) => !match.isComplete);
+
+  return (
+    <div className="ab-cross-seed">
+      {complete.length > 0 && (
+        <div className="ab-cross-seed-complete">
+          <Link2 size={14} />
+          <span>Cross-seedable with</span>
+          <ul>
+            {complete.map((match) => (
+              <li
+                key={match.torrentId}
+                title={
+                  match.isExactSize
+                    ? `All ${match.totalFiles} files match`
+                    : `All ${match.totalFiles} files have the same name and rounded size`
+                }
+              >
+                <MatchLink match={match} groupId={groupId} />
+                {!match.isExactSize && <span className="ab-cross-seed-rounded"> (same name and rounded size)</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {partial.length > 0 && (
+        <div className="ab-cross-seed-partial">
+          <span>Partial overlaps</span>
+          {partial.map((match) => (
+            <details key={match.torrentId}>
+              <summary>
+                <MatchLink match={match} groupId={groupId} /> ({match.matchedFiles.length} of {match.totalFiles} files)
+              </summary>
+              <ul>
+                {/* Names repeat across folders, e.g. one per season */}
+                {[...match.matchedFiles.entries()].map(([index, name]) => (
+                  <li key={`${index}-${name}`}>{name}</li>
+                ))}
+              </ul>
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import type { EpisodeCoverage } from "../utils/episodes";
+import { formatEpisodeRanges } from "../utils/episodes";
+
+interface EpisodeCoveragePanelProps {
+  coverage: EpisodeCoverage;
+}
+
+/**
+ * Coverage bar with one segment per episode, plus missing/duplicate episodes and extras
+ */
+export function EpisodeCoveragePanel({ coverage }: EpisodeCoveragePanelProps) {
+  const { range, episodes, missing, duplicates, extras, expectedCount, isComplete } = coverage;
+
+  let status: string;
+  if (isComplete === true) {
+    status = `Complete: all ${expectedCount} episodes`;
+  } else if (isComplete === false) {
+    status = `Incomplete: ${episodes.size} of ${expectedCount} episodes`;
+  } else {
+    status = `${episodes.size} episodes`;
+  }
+
+  return (
+    <div className="ab-episode-coverage">
+      <div className="ab-episode-coverage-summary">
+        <span
+          className={`ab-episode-coverage-status ${isComplete === true ? "ab-episode-complete" : ""} ${isComplete === false ? "ab-episode-incomplete" : ""}`}
+        >
+          {status}
+        </span>
+        {missing.length > 0 && <span className="ab-episode-missing-text">Missing: {formatEpisodeRanges(missing)}</span>}
+        {duplicates.length > 0 && (
+          <span className="ab-episode-duplicate-text">Duplicated: {formatEpisodeRanges(duplicates)}</span>
+        )}
+      </div>
+
+      <div className="ab-episode-coverage-bar">
+        {range.map((episode) => {
+          const files = episodes.get(episode) ?? [];
+          const state = files.length === 0 ? "missing" : files.length > 1 ? "duplicate" : "present";
+          const title =
+            files.length === 0
+              ? `Episode ${episode}: missing`
+              : `Episode ${episode}\n${files.map(({ filename }) => filename).join("\n")}`;
+          return <span key={episode} className={`ab-episode-segment ab-episode-${state}`} title={title} />;
+        })}
+      </div>
+
+      {extras.size > 0 && (
+        <div className="ab-episode-extras">
+          {[...extras.entries()].map(([type, files]) => (
+            <span key={type} className="ab-episode-extra" title={files.map(({ filename }) => filename).join("\n")}>
+              {type}: {files.length}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,134 @@
 import { ChevronDown, ChevronRight } from "lucide-preact";
-import { useState } from "preact/hooks";
+import { useMemo, useState } from "preact/hooks";
+import {
+  buildStructuredMediaInfo,
+  formatBitrate,
+  formatFrameRate,
+  formatPixels,
+  getBitDepth,
+  getTrackField,
+  type MediaInfoBadge,
+  type MediaInfoTrack,
+} from "../utils/mediainfo";
 
 interface MediaInfoTabProps {
   mediaInfo: string;
 }
 
+type TrackColumn = [label: string, getValue: (track: MediaInfoTrack) => string];
+
+const GENERAL_FIELDS: TrackColumn[] = [
+  ["Container", (track) => getTrackField(track, "format")],
+  ["Title", (track) => getTrackField(track, "movieName", "title")],
+  ["File size", (track) => getTrackField(track, "fileSize")],
+  ["Duration", (track) => getTrackField(track, "duration")],
+  ["Overall bitrate", (track) => formatBitrate(track.properties.overallBitRate)],
+  ["Encoded", (track) => getTrackField(track, "encodedDate")],
+  ["Muxer", (track) => getTrackField(track, "writingApplication")],
+];
+
+const withDetail = (value: string, detail: string) => (value && detail ? `${value} (${detail})` : value);
+
+const getBitrate = (track: MediaInfoTrack) =>
+  formatBitrate(track.properties.bitRate) || formatBitrate(track.properties.nominalBitRate);
+
+const VIDEO_COLUMNS: TrackColumn[] = [
+  ["Codec", (track) => withDetail(getTrackField(track, "format"), getTrackField(track, "formatProfile"))],
+  [
+    "Resolution",
+    (track) => {
+      const width = formatPixels(getTrackField(track, "width"));
+      const height = formatPixels(getTrackField(track, "height"));
+      return width && height ? `${width}x${height}` : "";
+    },
+  ],
+  ["Bit depth", (track) => (getBitDepth(track) ? `${getBitDepth(track)}-bit` : "")],
+  ["HDR", (track) => getTrackField(track, "hdrFormat")],
+  [
+    "Frame rate",
+    (track) =>
+      withDetail(
+        formatFrameRate(track.properties.frameRate) || formatFrameRate(track.properties.originalFrameRate),
+        getTrackField(track, "frameRateMode"),
+      ),
+  ],
+  ["Bitrate", getBitrate],
+  ["Title", (track) => getTrackField(track, "title")],
+];
+
+const AUDIO_COLUMNS: TrackColumn[] = [
+  ["Language", (track) => getTrackField(track, "language")],
+  ["Codec", (track) => getTrackField(track, "commercialName", "format")],
+  ["Channels", (track) => getTrackField(track, "channels")],
+  ["Sampling rate", (track) => getTrackField(track, "samplingRate")],
+  ["Bitrate", getBitrate],
+  ["Title", (track) => getTrackField(track, "title")],
+];
+
+const TEXT_COLUMNS: TrackColumn[] = [
+  ["Language", (track) => getTrackField(track, "language")],
+  ["Format", (track) => getTrackField(track, "format")],
+  ["Title", (track) => getTrackField(track, "title")],
+];
+
+function Badges({ badges }: { badges: MediaInfoBadge[] }) {
+  return (
+    <span className="ab-mediainfo-badges">
+      {badges.map((badge) => (
+        <span
+          key={badge.label}
+          className={`ab-mediainfo-badge ab-mediainfo-badge-${badge.variant}`}
+          title={badge.title}
+        >
+          {badge.label}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+function TrackTable({ title, tracks, columns }: { title: string; tracks: MediaInfoTrack[]; columns: TrackColumn[] }) {
+  if (tracks.length === 0) return null;
+
+  return (
+    <div className="ab-mediainfo-section">
+      <div className="ab-mediainfo-section-title">
+        {title} <span className="ab-mediainfo-count">{tracks.length}</span>
+      </div>
+      <table className="ab-mediainfo-table">
+        <thead>
+          <tr>
+            <th>#</th>
+            {columns.map(([label]) => (
+              <th key={label}>{label}</th>
+            ))}
+            <th>Flags</th>
+          </tr>
+        </thead>
+        <tbody>
+          {tracks.map((track) => (
+            <tr key={`${title}-${track.index}`}>
+              <td>{track.index}</td>
+              {columns.map(([label, getValue]) => (
+                <td key={label}>{getValue(track) || "—"}</td>
+              ))}
+              <td>
+                <Badges badges={track.badges} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 /**
- * Component for rendering the MediaInfo tab content with spoiler functionality
+ * Component for rendering the MediaInfo tab as per-track tables, with the raw text behind a spoiler
  */
 export function MediaInfoTab({ mediaInfo }: MediaInfoTabProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const structured = useMemo(() => buildStructuredMediaInfo(mediaInfo || ""), [mediaInfo]);
 
   if (!mediaInfo) {
     return <div className="ab-details-tab-content ab-no-content">No MediaInfo available.</div>;
@@ -19,12 +138,52 @@ export function MediaInfoTab({ mediaInfo }: MediaInfoTabProps) {
     setIsExpanded(!isExpanded);
   };
 
+  const { general, video, audio, text, chapters } = structured;
+  const hasTracks = Boolean(general) || video.length > 0 || audio.length > 0 || text.length > 0;
+
   return (
     <div className="ab-details-tab-content">
+      {hasTracks && (
+        <div className="ab-mediainfo">
+          {general && (
+            <div className="ab-mediainfo-section">
+              <div className="ab-mediainfo-section-title">General</div>
+              <dl className="ab-mediainfo-general">
+                {GENERAL_FIELDS.map(([label, getValue]) => {
+                  const value = getValue(general);
+                  return value ? (
+                    <div key={label}>
+                      <dt>{label}</dt>
+                      <dd>{value}</dd>
+                    </div>
+                  ) : null;
+                })}
+              </dl>
+            </div>
+          )}
+          <TrackTable title="Video" tracks={video} columns={VIDEO_COLUMNS} />
+          <TrackTable title="Audio" tracks={audio} columns={AUDIO_COLUMNS} />
+          <TrackTable title="Text" tracks={text} columns={TEXT_COLUMNS} />
+          {chapters.length > 0 && (
+            <div className="ab-mediainfo-section">
+              <div className="ab-mediainfo-section-title">
+                Chapters <span className="ab-mediainfo-count">{chapters.length}</span>
+              </div>
+              <ol className="ab-mediainfo-chapters">
+                {chapters.map((chapter) => (
+                  <li key={chapter.time}>
+                    <code>{chapter.time}</code> {chapter.title}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      )}
       <div className="ab-spoiler-container">
         <button type="button" className="ab-spoiler-button" onClick={toggleExpanded}>
           {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
-          Show MediaInfo
+          {hasTracks ? "Show raw MediaInfo" : "Show MediaInfo"}
         </button>
         {isExpanded && (
           <div className="ab-spoiler-content">
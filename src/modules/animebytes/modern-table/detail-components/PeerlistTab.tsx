@@ -1,5 +1,13 @@
-import { Loader2 } from "lucide-preact";
+import { ChevronDown, ChevronsUpDown, ChevronUp, Loader2 } from "lucide-preact";
+import { useMemo, useState } from "preact/hooks";
 import type { PeerlistItem } from "@/types/modern-table";
+import {
+  COMPLETION_BUCKETS,
+  type PeerlistSummary,
+  type PeerSortColumn,
+  sortPeers,
+  summarizePeerlist,
+} from "../utils/peerlist";
 
 interface PeerlistTabProps {
   peerlist: PeerlistItem[];
@@ -8,10 +16,97 @@ interface PeerlistTabProps {
   isLoaded: boolean;
 }
 
+const PEER_COLUMNS: Array<[PeerSortColumn, string]> = [
+  ["username", "User"],
+  ["downloaded", "Down"],
+  ["uploaded", "Up"],
+  ["percentage", "%"],
+];
+
+const formatPercent = (value: number) => `${Number.isInteger(value) ? value : value.toFixed(1)}%`;
+
+function PeerlistSummaryPanel({ summary, total }: { summary: PeerlistSummary; total: number }) {
+  const maxBucket = Math.max(1, ...summary.distribution);
+  const isDeadSwarm = summary.seeders === 0 && summary.partial > 0;
+
+  return (
+    <div className="ab-peerlist-summary">
+      <div className="ab-peerlist-stats">
+        <span>
+          <strong>{summary.seeders}</strong> complete
+        </span>
+        <span>
+          <strong>{summary.partial}</strong> partial
+        </span>
+        <span>
+          Average completion <strong>{formatPercent(summary.averageCompletion)}</strong>
+        </span>
+        {summary.stalledCount > 0 && (
+          <span
+            className="ab-peerlist-stalled"
+            title={summary.stalledGroups
+              .map(({ percentage, count }) => `${count} at ${formatPercent(percentage)}`)
+              .join(", ")}
+          >
+            {summary.stalledCount} of {total} stalled at the same percentage
+          </span>
+        )}
+        {isDeadSwarm && summary.bestPartial !== null && (
+          <span className="ab-peerlist-stalled">No seeders, best peer at {formatPercent(summary.bestPartial)}</span>
+        )}
+      </div>
+      <div className="ab-peerlist-chart" role="img" aria-label="Completion distribution of peers">
+        {COMPLETION_BUCKETS.map((label, index) => (
+          <div
+            key={label}
+            className="ab-peerlist-chart-column"
+            title={`${label}: ${summary.distribution[index]} peers`}
+          >
+            <div
+              className={`ab-peerlist-chart-bar ${index === COMPLETION_BUCKETS.length - 1 ? "ab-peerlist-chart-bar-complete" : ""}`}
+              style={{ height: `${(summary.distribution[index] / maxBucket) * 100}%` }}
+            />
+            <span className="ab-peerlist-chart-label">{label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 /**
- * Component for rendering the peerlist tab content
+ * Component for rendering the peerlist tab content, with a swarm summary above a sortable table
  */
 export function PeerlistTab({ peerlist, torrentId, isLoading, isLoaded }: PeerlistTabProps) {
+  const [sortColumn, setSortColumn] = useState<PeerSortColumn | null>(null);
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
+
+  const summary = useMemo(() => summarizePeerlist(peerlist), [peerlist]);
+  const sortedPeers = useMemo(
+    () => (sortColumn ? sortPeers(peerlist, sortColumn, sortDirection) : peerlist),
+    [peerlist, sortColumn, sortDirection],
+  );
+
+  // First click sorts numbers high to low and names A-Z, the second reverses, the third restores the tracker's order
+  const handleSort = (column: PeerSortColumn) => {
+    const initialDirection = column === "username" ? "asc" : "desc";
+    if (sortColumn !== column) {
+      setSortColumn(column);
+      setSortDirection(initialDirection);
+    } else if (sortDirection === initialDirection) {
+      setSortDirection(initialDirection === "asc" ? "desc" : "asc");
+    } else {
+      setSortColumn(null);
+    }
+  };
+
+  const handleSortKeyDown = (e: KeyboardEvent, column: PeerSortColumn) => {
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      handleSort(column);
+    }
+  };
+
   // Show loading state
   if (isLoading) {
     return (
@@ -44,17 +139,35 @@ export function PeerlistTab({ peerlist, torrentId, isLoading, isLoaded }: Peerli
 
   return (
     <div className="ab-details-tab-content">
+      <PeerlistSummaryPanel summary={summary} total={peerlist.length} />
       <table className="ab-peerlist-table">
         <thead>
           <tr className="ab-peerlist-header">
-            <th>User</th>
-            <th>Down</th>
-            <th>Up</th>
-            <th>%</th>
+            {PEER_COLUMNS.map(([column, label]) => (
+              <th
+                key={column}
+                className="ab-sortable"
+                tabIndex={0}
+                onClick={() => handleSort(column)}
+                onKeyDown={(e) => handleSortKeyDown(e, column)}
+                aria-sort={sortColumn === column ? (sortDirection === "asc" ? "ascending" : "descending") : "none"}
+              >
+                <span className="ab-peerlist-header-content">
+                  {label}
+                  {sortColumn !== column ? (
+                    <ChevronsUpDown size={12} className="ab-sort-indicator" />
+                  ) : sortDirection === "asc" ? (
+                    <ChevronUp size={12} className="ab-sort-indicator ab-sort-active" />
+                  ) : (
+                    <ChevronDown size={12} className="ab-sort-indicator ab-sort-active" />
+                  )}
+                </span>
+              </th>
+            ))}
           </tr>
         </thead>
         <tbody>
-          {peerlist.map((peer, index) => (
+          {sortedPeers.map((peer, index) => (
             <tr key={`${torrentId}-peer-${peer.username}-${index}`} className="ab-peerlist-row">
               <td className="ab-peerlist-cell">
                 <div className="ab-peerlist-user">
@@ -0,0 +1,54 @@
+import type { SubtitleAnalysis } from "@/types/modern-table";
+import { SubtitleBadges } from "../components/SubtitleBadges";
+import { SUBTITLE_KINDS } from "../utils/subtitles";
+
+interface SubtitlesTabProps {
+  analysis: SubtitleAnalysis;
+}
+
+const SOURCE_LABELS = {
+  official: "Official",
+  fansub: "Fansub",
+  unknown: "—",
+};
+
+/**
+ * Component for rendering the classified subtitle tracks, muxed and external
+ */
+export function SubtitlesTab({ analysis }: SubtitlesTabProps) {
+  if (analysis.tracks.length === 0) {
+    return <div className="ab-details-tab-content ab-no-content">No subtitle tracks found.</div>;
+  }
+
+  return (
+    <div className="ab-details-tab-content">
+      <div className="ab-subtitles-summary">
+        {analysis.tracks.length} subtitle tracks <SubtitleBadges analysis={analysis} />
+      </div>
+      <table className="ab-mediainfo-table">
+        <thead>
+          <tr>
+            <th>Language</th>
+            <th>Type</th>
+            <th>Source</th>
+            <th>Format</th>
+            <th>Title</th>
+            <th>Included as</th>
+          </tr>
+        </thead>
+        <tbody>
+          {analysis.tracks.map((track, index) => (
+            <tr key={`${track.origin}-${track.language}-${track.kind}-${index}`}>
+              <td>{track.language || "—"}</td>
+              <td>{SUBTITLE_KINDS[track.kind].label}</td>
+              <td>{SOURCE_LABELS[track.source]}</td>
+              <td>{track.format || "—"}</td>
+              <td>{track.title || "—"}</td>
+              <td>{track.origin === "muxed" ? "Muxed" : "External file"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
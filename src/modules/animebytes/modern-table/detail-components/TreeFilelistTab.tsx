@@ -1,7 +1,12 @@
-import { ChevronDown, ChevronRight } from "lucide-preact";
+import { Check, ChevronDown, ChevronRight, Copy } from "lucide-preact";
 import type { JSX } from "preact";
 import { useMemo, useState } from "preact/hooks";
 import type { FilelistItem } from "@/types/modern-table";
+import { err } from "@/utils/logging";
+import { useAniListEpisodeCount } from "../hooks/useAniListEpisodeCount";
+import { analyzeEpisodeCoverage, type ParsedEpisodeFile, parseEpisodeFilename } from "../utils/episodes";
+import { countExtensions, createPathMatcher, getFileExtension } from "../utils/filelistFilter";
+import { EpisodeCoveragePanel } from "./EpisodeCoveragePanel";
 
 interface TreeFilelistTabProps {
   filelist: FilelistItem[];
@@ -18,6 +23,7 @@ interface TreeNode {
   parent?: TreeNode;
   isExpanded: boolean;
   depth: number;
+  episodeInfo?: ParsedEpisodeFile;
 }
 
 // Size conversion utilities
@@ -65,6 +71,14 @@ function bytesToText(size: number): string {
 export function TreeFilelistTab({ filelist }: TreeFilelistTabProps) {
   const [expandedNodes, setExpandedNodes] = useState<Set<number>>(new Set());
   const [allExpanded, setAllExpanded] = useState(false);
+  const expectedEpisodes = useAniListEpisodeCount();
+  const [query, setQuery] = useState("");
+  const [extensionFilter, setExtensionFilter] = useState<Set<string>>(new Set());
+  const [copyMessage, setCopyMessage] = useState<string | null>(null);
+
+  const extensions = useMemo(() => countExtensions(filelist.map(({ filename }) => filename)), [filelist]);
+
+  const coverage = useMemo(() => analyzeEpisodeCoverage(filelist, expectedEpisodes), [filelist, expectedEpisodes]);
 
   // Build tree structure from flat filelist
   const treeData = useMemo(() => {
@@ -136,6 +150,7 @@ export function TreeFilelistTab({ filelist }: TreeFilelistTabProps) {
         parent: currentParent,
         isExpanded: false,
         depth: pathParts.length,
+        episodeInfo: parseEpisodeFilename(file.filename, file.size),
       };
 
       nodes.set(fileNode.id, fileNode);
@@ -166,6 +181,68 @@ export function TreeFilelistTab({ filelist }: TreeFilelistTabProps) {
     return { root, nodes };
   }, [filelist]);
 
+  // Files matching the filter box and extension chips, with their folders kept visible.
+  // Each visible node also gets the size and count of the matches below it.
+  const filter = useMemo(() => {
+    if (!query.trim() && extensionFilter.size === 0) return null;
+
+    const matchesPath = createPathMatcher(query);
+    const matchedFiles: TreeNode[] = [];
+    const visible = new Set<number>();
+    const matchStats = new Map<number, { size: number; count: number }>();
+
+    treeData.nodes.forEach((node) => {
+      if (!node.isFile) return;
+      if (extensionFilter.size > 0 && !extensionFilter.has(getFileExtension(node.name))) return;
+      if (!matchesPath(node.name)) return;
+
+      matchedFiles.push(node);
+      let current: TreeNode | undefined = node;
+      while (current) {
+        visible.add(current.id);
+        const stats = matchStats.get(current.id) ?? { size: 0, count: 0 };
+        matchStats.set(current.id, { size: stats.size + node.size, count: stats.count + 1 });
+        current = current.parent;
+      }
+    });
+
+    return { matchedFiles, visible, matchStats };
+  }, [treeData, query, extensionFilter]);
+
+  const toggleExtension = (extension: string) => {
+    setExtensionFilter((prev) => {
+      const next = new Set(prev);
+      if (next.has(extension)) {
+        next.delete(extension);
+      } else {
+        next.add(extension);
+      }
+      return next;
+    });
+  };
+
+  // Open every folder on the way to a match
+  const expandAllMatches = () => {
+    if (!filter) return;
+    const folderIds = [...filter.visible].filter((id) => id !== 0 && !treeData.nodes.get(id)?.isFile);
+    setExpandedNodes(new Set(folderIds));
+  };
+
+  const copyToClipboard = (text: string, message: string) => {
+    try {
+      GM_setClipboard(text, "text");
+      setCopyMessage(message);
+    } catch (error) {
+      err("Failed to copy file paths", error);
+      setCopyMessage("Couldn't copy to the clipboard");
+    }
+  };
+
+  const copyFileList = () => {
+    const paths = filter ? filter.matchedFiles.map(({ name }) => name) : filelist.map(({ filename }) => filename);
+    copyToClipboard(paths.join("\n"), `Copied ${paths.length} path${paths.length !== 1 ? "s" : ""}`);
+  };
+
   // Toggle node expansion
   const toggleNode = (nodeId: number) => {
     setExpandedNodes((prev) => {
@@ -205,6 +282,26 @@ export function TreeFilelistTab({ filelist }: TreeFilelistTabProps) {
     }
   };
 
+  // Tags for what the file name says about the episode
+  const renderEpisodeTags = ({ episode, version, crc32, extraType }: ParsedEpisodeFile) => (
+    <span className="ab-episode-tags">
+      {extraType ? (
+        <span className="ab-episode-tag">{extraType}</span>
+      ) : (
+        episode !== null && <span className="ab-episode-tag">E{episode}</span>
+      )}
+      {version !== null && <span className="ab-episode-tag">v{version}</span>}
+      {crc32 && <span className="ab-episode-tag ab-episode-tag-crc">{crc32}</span>}
+    </span>
+  );
+
+  // While filtering, folders show the size of their matches
+  const renderFolderSize = (node: TreeNode) => {
+    const stats = filter?.matchStats.get(node.id);
+    if (!stats) return `[${bytesToText(node.size)}]`;
+    return `[${bytesToText(stats.size)} in ${stats.count} match${stats.count !== 1 ? "es" : ""}]`;
+  };
+
   // Render tree node
   const renderNode = (node: TreeNode, isVisible: boolean = true): JSX.Element[] => {
     if (node.id === 0) {
@@ -212,7 +309,7 @@ export function TreeFilelistTab({ filelist }: TreeFilelistTabProps) {
       return node.children.flatMap((child) => renderNode(child, true));
     }
 
-    if (!isVisible) {
+    if (!isVisible || (filter && !filter.visible.has(node.id))) {
       return [];
     }
 
@@ -243,13 +340,27 @@ export function TreeFilelistTab({ filelist }: TreeFilelistTabProps) {
             <div className="ab-tree-node-container">
               <span dangerouslySetInnerHTML={{ __html: indent }} />
               <code className="ab-tree-node-file">{node.displayName}</code>
+              {node.episodeInfo && renderEpisodeTags(node.episodeInfo)}
+              <button
+                type="button"
+                className="ab-filelist-copy-path"
+                onClick={() => copyToClipboard(node.name, `Copied ${node.displayName}`)}
+                title="Copy full path"
+                aria-label={`Copy the path of ${node.displayName}`}
+              >
+                {copyMessage === `Copied ${node.displayName}` ? <Check size={12} /> : <Copy size={12} />}
+              </button>
             </div>
           )}
         </td>
         <td className="ab-filelist-cell ab-filelist-cell-size">
-          <span className={node.isFile ? "ab-tree-size-file" : "ab-tree-size-folder"}>
-            {node.isFile ? bytesToText(node.size) : `[${bytesToText(node.size)}]`}
-          </span>
+          {node.isFile ? (
+            <span className="ab-tree-size-file">{bytesToText(node.size)}</span>
+          ) : (
+            <span className="ab-tree-size-folder" title={`${bytesToText(node.size)} in total`}>
+              {renderFolderSize(node)}
+            </span>
+          )}
         </td>
       </tr>,
     );
@@ -291,6 +402,50 @@ export function TreeFilelistTab({ filelist }: TreeFilelistTabProps) {
         </div>
       </div>
 
+      {coverage.episodes.size > 1 && <EpisodeCoveragePanel coverage={coverage} />}
+
+      <div className="ab-filelist-filter">
+        <input
+          type="text"
+          className="ab-filelist-filter-input"
+          placeholder="Filter files, e.g. opening or *.flac"
+          value={query}
+          onInput={(e) => setQuery((e.target as HTMLInputElement).value)}
+          aria-label="Filter files by name or glob"
+        />
+        {extensions.length > 1 &&
+          extensions.map(([extension, count]) => (
+            <button
+              key={extension}
+              type="button"
+              className={`ab-filelist-ext ${extensionFilter.has(extension) ? "ab-filelist-ext-active" : ""}`}
+              onClick={() => toggleExtension(extension)}
+              aria-pressed={extensionFilter.has(extension)}
+            >
+              .{extension} <span className="ab-filelist-ext-count">{count}</span>
+            </button>
+          ))}
+        <div className="ab-filelist-filter-actions">
+          {filter && (
+            <>
+              <span>
+                {filter.matchedFiles.length} of {fileCount} files
+                {filter.matchedFiles.length > 0 && `, ${bytesToText(filter.matchStats.get(0)?.size ?? 0)}`}
+              </span>
+              {folderCount > 0 && filter.matchedFiles.length > 0 && (
+                <button type="button" className="ab-tree-toggle-all" onClick={expandAllMatches}>
+                  Expand all matches
+                </button>
+              )}
+            </>
+          )}
+          <button type="button" className="ab-tree-toggle-all" onClick={copyFileList}>
+            <Copy size={12} /> {filter ? "Copy filtered list" : "Copy list"}
+          </button>
+          {copyMessage && <span className="ab-filelist-copy-message">{copyMessage}</span>}
+        </div>
+      </div>
+
       <table className="ab-filelist-table">
         <thead>
           <tr className="ab-filelist-header">
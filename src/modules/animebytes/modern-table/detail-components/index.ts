@@ -1,8 +1,10 @@
+export { CrossSeedPanel } from "./CrossSeedPanel";
 export { DescriptionTab } from "./DescriptionTab";
 export { FilelistTab } from "./FilelistTab";
 export { MediaInfoTab } from "./MediaInfoTab";
 export { PeerlistTab } from "./PeerlistTab";
 export { ScreenshotsTab } from "./ScreenshotsTab";
 export { SeaDexTab } from "./SeaDexTab";
+export { SubtitlesTab } from "./SubtitlesTab";
 export { TreeFilelistTab } from "./TreeFilelistTab";
 export { UploadDescription } from "./UploadDescription";
@@ -6,7 +6,10 @@ import type {
   TorrentDetailsData,
   UploadDescriptionData,
 } from "@/types/modern-table";
+import { cachedApiCall } from "@/utils/cache";
 import { err, log } from "@/utils/logging";
+import { buildStructuredMediaInfo } from "./utils/mediainfo";
+import { analyzeSubtitles } from "./utils/subtitles";
 
 /**
  * Extract structured torrent details data from the original HTML
@@ -29,6 +32,9 @@ export function extractTorrentDetailsData(torrentId: string, groupId: string, de
   // Extract filelist
   const filelist = extractFilelist(doc, torrentId);
 
+  // Classify the muxed and external subtitle tracks
+  const subtitleAnalysis = analyzeSubtitles(mediaInfo ? buildStructuredMediaInfo(mediaInfo) : null, filelist);
+
   // Extract SeaDex data if present
   const seadexData = extractSeaDexData(doc, torrentId);
 
@@ -41,6 +47,7 @@ export function extractTorrentDetailsData(torrentId: string, groupId: string, de
     description,
     mediaInfo,
     filelist,
+    subtitleAnalysis,
     screenshots,
     peerlist,
     seadexData,
@@ -52,6 +59,7 @@ export function extractTorrentDetailsData(torrentId: string, groupId: string, de
     descriptionLength: description.length,
     mediaInfoLength: mediaInfo.length,
     filelistCount: filelist.length,
+    subtitleTracks: subtitleAnalysis.tracks.length,
     hasSeadexData: !!seadexData,
   });
 
@@ -61,7 +69,7 @@ export function extractTorrentDetailsData(torrentId: string, groupId: string, de
 /**
  * Extract upload description from top-level blockquote and parse into structured data
  */
-function extractUploadDescription(doc: Document): UploadDescriptionData {
+export function extractUploadDescription(doc: ParentNode): UploadDescriptionData {
   const blockquote = doc.querySelector("blockquote");
 
   if (!blockquote) {
@@ -137,7 +145,7 @@ function extractDescription(doc: Document, torrentId: string): string {
 /**
  * Extract raw MediaInfo text from pre element
  */
-function extractMediaInfo(doc: Document, torrentId: string): string {
+export function extractMediaInfo(doc: ParentNode, torrentId: string): string {
   const escapedId = CSS.escape(`${torrentId}_mediainfo`);
   const mediaInfoDiv = doc.querySelector(`#${escapedId}`);
   const preElement = mediaInfoDiv?.querySelector(".spoiler .codeBox pre");
@@ -147,7 +155,7 @@ function extractMediaInfo(doc: Document, torrentId: string): string {
 /**
  * Extract filelist from table
  */
-function extractFilelist(doc: Document, torrentId: string): FilelistItem[] {
+export function extractFilelist(doc: ParentNode, torrentId: string): FilelistItem[] {
   const escapedId = CSS.escape(`${torrentId}_filelist`);
   const filelistDiv = doc.querySelector(`#${escapedId}`);
   const table = filelistDiv?.querySelector("table");
@@ -162,8 +170,16 @@ function extractFilelist(doc: Document, torrentId: string): FilelistItem[] {
     if (cells.length >= 2) {
       const filename = cells[0].textContent?.trim() || "";
       const size = cells[1].textContent?.trim() || "";
+      // The size column shows a rounded size such as "1.23 GiB". No markup with exact byte counts has been seen yet,
+      // so a count in the tooltip or after the size, e.g. "1.23 GiB (1,320,702,443 bytes)", is only picked up if present
+      // and cross-seed matches otherwise fall back to the rounded size.
+      const exactSize = `${cells[1].getAttribute("title") ?? ""} ${size}`.match(/([\d,]+)\s*bytes/i);
       if (filename && size) {
-        filelist.push({ filename, size });
+        filelist.push({
+          filename,
+          size: size.replace(/\s*\([\d,]+\s*bytes\)/i, ""),
+          bytes: exactSize ? Number(exactSize[1].replace(/,/g, "")) : undefined,
+        });
       }
     }
   });
@@ -187,10 +203,39 @@ function extractSeaDexData(doc: Document, torrentId: string): SeaDexData | null
   };
 }
 
+// Screenshots hardly ever change once uploaded; peers come and go
+const SCREENSHOTS_CACHE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+const PEERLIST_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+// Screenshots are often added some time after the upload
+const EMPTY_SCREENSHOTS_CACHE_TTL = 30 * 60 * 1000; // 30 minutes
+
+export const screenshotsCacheKey = (torrentId: string) => `ab-screenshots-${torrentId}`;
+export const peerlistCacheKey = (torrentId: string) => `ab-peerlist-${torrentId}`;
+
+/**
+ * Fetch and extract screenshots data, cached so re-expanding a torrent or revisiting the page is instant.
+ * Null when the screenshots couldn't be loaded, which isn't cached.
+ */
+export function fetchScreenshotsData(torrentId: string, groupId: string): Promise<ScreenshotItem[] | null> {
+  return cachedApiCall(screenshotsCacheKey(torrentId), () => requestScreenshotsData(torrentId, groupId), {
+    ttl: SCREENSHOTS_CACHE_TTL,
+    emptyTtl: EMPTY_SCREENSHOTS_CACHE_TTL,
+    cacheFailures: false,
+  });
+}
+
 /**
- * Fetch and extract screenshots data
+ * Fetch and extract peerlist data, cached briefly since the swarm changes.
+ * Null when the peer list couldn't be loaded, which isn't cached.
  */
-export async function fetchScreenshotsData(torrentId: string, groupId: string): Promise<ScreenshotItem[]> {
+export function fetchPeerlistData(torrentId: string, groupId: string): Promise<PeerlistItem[] | null> {
+  return cachedApiCall(peerlistCacheKey(torrentId), () => requestPeerlistData(torrentId, groupId), {
+    ttl: PEERLIST_CACHE_TTL,
+    cacheFailures: false,
+  });
+}
+
+async function requestScreenshotsData(torrentId: string, groupId: string): Promise<ScreenshotItem[] | null> {
   try {
     log("Fetching screenshots data", { torrentId, groupId });
 
@@ -205,9 +250,10 @@ export async function fetchScreenshotsData(torrentId: string, groupId: string):
 
     const escapedId = CSS.escape(`${torrentId}_screenshots`);
     const screenshotsDiv = doc.querySelector(`#${escapedId}`);
+    // Missing on error and login pages, so there's nothing to tell about the screenshots
     if (!screenshotsDiv) {
       log("No screenshots div found in response");
-      return [];
+      return null;
     }
 
     const screenshots: ScreenshotItem[] = [];
@@ -243,14 +289,11 @@ export async function fetchScreenshotsData(torrentId: string, groupId: string):
     return screenshots;
   } catch (error) {
     err("Error fetching screenshots data", error);
-    return [];
+    throw error;
   }
 }
 
-/**
- * Fetch and extract peerlist data
- */
-export async function fetchPeerlistData(torrentId: string, groupId: string): Promise<PeerlistItem[]> {
+async function requestPeerlistData(torrentId: string, groupId: string): Promise<PeerlistItem[] | null> {
   try {
     log("Fetching peerlist data", { torrentId, groupId });
 
@@ -265,9 +308,10 @@ export async function fetchPeerlistData(torrentId: string, groupId: string): Pro
 
     const escapedId = CSS.escape(`${torrentId}_peerlist`);
     const peerlistDiv = doc.querySelector(`#${escapedId}`);
+    // Missing on error and login pages, so there's nothing to tell about the peers
     if (!peerlistDiv) {
       log("No peerlist div found in response");
-      return [];
+      return null;
     }
 
     const peerlist: PeerlistItem[] = [];
@@ -320,6 +364,6 @@ export async function fetchPeerlistData(torrentId: string, groupId: string): Pro
     return peerlist;
   } catch (error) {
     err("Error fetching peerlist data", error);
-    return [];
+    throw error;
   }
 }
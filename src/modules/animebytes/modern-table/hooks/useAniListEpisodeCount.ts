@@ -0,0 +1,32 @@
+import { useEffect, useState } from "preact/hooks";
+import { aniListService } from "@/services/anilist";
+import { err } from "@/utils/logging";
+import { useMediaInfo } from "../../hooks/useMediaInfo";
+
+/**
+ * Episode count of the current group's AniList entry, null until known.
+ * Responses are cached by the AniList service, so every expanded torrent shares one request.
+ */
+export function useAniListEpisodeCount(): number | null {
+  const mediaInfo = useMediaInfo();
+  const anilistId = mediaInfo?.apiData?.anilist;
+  const [episodeCount, setEpisodeCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!anilistId) return;
+
+    let cancelled = false;
+    aniListService
+      .fetchMediaData(anilistId)
+      .then((data) => {
+        if (!cancelled) setEpisodeCount(data?.episodes ?? null);
+      })
+      .catch((error) => err("Failed to fetch the AniList episode count", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [anilistId]);
+
+  return episodeCount;
+}
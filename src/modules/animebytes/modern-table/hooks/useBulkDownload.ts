@@ -0,0 +1,39 @@
+import { useRef, useState } from "preact/hooks";
+import { useSettingsStore } from "@/stores/settings";
+import { type BulkDownloadProgress, downloadTorrents, type SelectedTorrent } from "../utils/bulkDownload";
+
+export function useBulkDownload() {
+  const { bulkDownloadFilenameTemplate, bulkDownloadDelaySeconds } = useSettingsStore([
+    "bulkDownloadFilenameTemplate",
+    "bulkDownloadDelaySeconds",
+  ]);
+  const [progress, setProgress] = useState<BulkDownloadProgress | null>(null);
+  const cancelledRef = useRef(false);
+
+  const startDownload = (items: SelectedTorrent[]) => {
+    if (items.length === 0 || progress?.isRunning) return;
+
+    cancelledRef.current = false;
+    downloadTorrents(items, {
+      template: bulkDownloadFilenameTemplate,
+      delayMs: bulkDownloadDelaySeconds * 1000,
+      isCancelled: () => cancelledRef.current,
+      onProgress: setProgress,
+    });
+  };
+
+  const cancelDownload = () => {
+    cancelledRef.current = true;
+  };
+
+  const dismissProgress = () => {
+    if (!progress?.isRunning) setProgress(null);
+  };
+
+  return {
+    progress,
+    startDownload,
+    cancelDownload,
+    dismissProgress,
+  };
+}
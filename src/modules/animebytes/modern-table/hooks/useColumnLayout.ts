@@ -0,0 +1,86 @@
+import { useMemo } from "preact/hooks";
+import { useSettingsStore } from "@/stores/settings";
+import type { ColumnId, TableType } from "@/types/modern-table";
+import { log } from "@/utils/logging";
+import {
+  getAvailableColumns,
+  moveColumn,
+  parseColumnLayouts,
+  resolveColumnLayout,
+  serializeColumnLayouts,
+} from "../columns";
+
+export function useColumnLayout(tableType: TableType) {
+  const settingsStore = useSettingsStore([
+    "columnLayouts",
+    "showRegionColumn",
+    "showDualAudioColumn",
+    "compactResolutionMode",
+    "qualityScoringEnabled",
+  ]);
+  const { columnLayouts, showRegionColumn, showDualAudioColumn, compactResolutionMode, qualityScoringEnabled } =
+    settingsStore;
+
+  const columns = useMemo(
+    () =>
+      resolveColumnLayout(tableType, columnLayouts, {
+        showRegionColumn,
+        showDualAudioColumn,
+        compactResolutionMode,
+        qualityScoringEnabled,
+      }),
+    [tableType, columnLayouts, showRegionColumn, showDualAudioColumn, compactResolutionMode, qualityScoringEnabled],
+  );
+  const availableColumns = getAvailableColumns(tableType, qualityScoringEnabled);
+
+  const saveColumns = (next: ColumnId[]) => {
+    settingsStore.updateSetting("columnLayouts", { ...columnLayouts, [tableType]: next });
+  };
+
+  // Move a column onto another column's position (header drag and drop)
+  const reorderColumn = (from: ColumnId, to: ColumnId) => {
+    const next = moveColumn(columns, from, to);
+    if (next !== columns) {
+      log(`Moved column ${from} to position of ${to} for ${tableType} tables`);
+      saveColumns(next);
+    }
+  };
+
+  // Show or hide a column; newly shown columns are appended to the end
+  const toggleColumn = (id: ColumnId) => {
+    if (columns.includes(id)) {
+      // Keep at least one column visible
+      if (columns.length > 1) {
+        saveColumns(columns.filter((column) => column !== id));
+      }
+    } else {
+      saveColumns([...columns, id]);
+    }
+  };
+
+  // Drop the saved layout for this table type so the default one applies again
+  const resetColumns = () => {
+    const { [tableType]: _removed, ...rest } = columnLayouts;
+    settingsStore.updateSetting("columnLayouts", rest);
+  };
+
+  // Export all saved layouts, including the one currently shown for this table type
+  const exportLayouts = () => serializeColumnLayouts({ ...columnLayouts, [tableType]: columns });
+
+  // Import a shared blob, merging it over the saved layouts. Throws on invalid input.
+  const importLayouts = (json: string) => {
+    const imported = parseColumnLayouts(json);
+    settingsStore.updateSetting("columnLayouts", { ...columnLayouts, ...imported });
+    log("Imported column layouts for", Object.keys(imported));
+  };
+
+  return {
+    columns,
+    availableColumns,
+    reorderColumn,
+    toggleColumn,
+    resetColumns,
+    exportLayouts,
+    importLayouts,
+  };
+}
@@ -0,0 +1,43 @@
+import { useEffect } from "preact/hooks";
+import { recordGroupFilelists, type StoredTorrentFilelist } from "@/stores/filelists";
+import { useSettingsStore } from "@/stores/settings";
+import type { GroupedTorrents } from "@/types/modern-table";
+import { getPageTitle } from "../utils/bulkDownload";
+import { getStoredFiles } from "../utils/crossSeed";
+
+/**
+ * Store the filelists of the torrents in the table, so the cross-seed finder can match against them
+ * on this page and in later visits to other groups
+ */
+export function useCrossSeedIndex(groupedData: GroupedTorrents, title?: string) {
+  const { crossSeedFinderEnabled } = useSettingsStore(["crossSeedFinderEnabled"]);
+
+  useEffect(() => {
+    if (!crossSeedFinderEnabled) return;
+
+    const pageTitle = [getPageTitle(), title].filter(Boolean).join(" - ");
+    const byGroup = new Map<string, StoredTorrentFilelist[]>();
+    const groupTitles = new Map<string, string>();
+    // Series pages list many groups, each under its own header with the group's title
+    let groupHeaderTitle = "";
+    for (const { section, torrents } of groupedData.sections) {
+      if (section?.type === "group") groupHeaderTitle = section.title.replace(/\s+/g, " ");
+
+      for (const torrent of torrents) {
+        if (!torrent.groupId || !torrent.filelist?.length) continue;
+
+        const filelist: StoredTorrentFilelist = {
+          torrentId: torrent.torrentId,
+          label: torrent.name.replace(/^»\s*/, ""),
+          files: getStoredFiles(torrent.filelist),
+        };
+        byGroup.set(torrent.groupId, [...(byGroup.get(torrent.groupId) ?? []), filelist]);
+        groupTitles.set(torrent.groupId, groupHeaderTitle || pageTitle);
+      }
+    }
+
+    for (const [groupId, torrents] of byGroup) {
+      recordGroupFilelists(groupId, groupTitles.get(groupId) ?? pageTitle, torrents);
+    }
+  }, [groupedData, title, crossSeedFinderEnabled]);
+}
@@ -0,0 +1,48 @@
+import { useEffect } from "preact/hooks";
+import { useSettingsStore } from "@/stores/settings";
+import type { GroupedTorrents, ParsedTorrentRow } from "@/types/modern-table";
+import { prefetchTorrentDetails } from "../utils/prefetch";
+
+// Idle prefetching covers the top of the page only; further down, hovering takes over
+const IDLE_PREFETCH_LIMIT = 10;
+
+const prefetchOnHover = (torrent: ParsedTorrentRow) => {
+  if (torrent.detailsHtml) {
+    prefetchTorrentDetails(torrent.torrentId, torrent.groupId, true);
+  }
+};
+
+export function useDetailsPrefetch(groupedData: GroupedTorrents, collapsedSections: Set<string>) {
+  const { detailsPrefetchMode, disableCaching } = useSettingsStore(["detailsPrefetchMode", "disableCaching"]);
+  // Without the cache there is nothing to prefetch into
+  const isEnabled = detailsPrefetchMode !== "off" && !disableCaching;
+  const isIdleEnabled = isEnabled && detailsPrefetchMode === "idle";
+
+  // Prefetch the first expandable torrents of the open sections once the browser has nothing else to do
+  useEffect(() => {
+    if (!isIdleEnabled) return;
+
+    const torrents = groupedData.sections
+      .filter(({ section }) => !section || !collapsedSections.has(section.id))
+      .flatMap(({ torrents: sectionTorrents }) => sectionTorrents)
+      .filter((torrent) => torrent.detailsHtml)
+      .slice(0, IDLE_PREFETCH_LIMIT);
+
+    const prefetchAll = () => {
+      for (const torrent of torrents) {
+        prefetchTorrentDetails(torrent.torrentId, torrent.groupId);
+      }
+    };
+
+    if ("requestIdleCallback" in window) {
+      const handle = window.requestIdleCallback(prefetchAll, { timeout: 5000 });
+      return () => window.cancelIdleCallback(handle);
+    }
+    const timeout = setTimeout(prefetchAll, 2000);
+    return () => clearTimeout(timeout);
+  }, [isIdleEnabled, groupedData, collapsedSections]);
+
+  return {
+    onHoverIntent: isEnabled ? prefetchOnHover : undefined,
+  };
+}
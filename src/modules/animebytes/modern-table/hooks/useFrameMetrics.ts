@@ -0,0 +1,40 @@
+import { useEffect, useState } from "preact/hooks";
+import { err } from "@/utils/logging";
+import { type FrameMetrics, measureFramePair } from "../utils/imageMetrics";
+
+interface FrameMetricsState {
+  metrics: FrameMetrics | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Quality metrics for two screenshots of the same frame, measured when both URLs are known
+ */
+export function useFrameMetrics(urlA: string | undefined, urlB: string | undefined): FrameMetricsState {
+  const [state, setState] = useState<FrameMetricsState>({ metrics: null, isLoading: false, error: null });
+
+  useEffect(() => {
+    if (!urlA || !urlB) {
+      setState({ metrics: null, isLoading: false, error: null });
+      return;
+    }
+
+    let cancelled = false;
+    setState({ metrics: null, isLoading: true, error: null });
+    measureFramePair(urlA, urlB)
+      .then((metrics) => {
+        if (!cancelled) setState({ metrics, isLoading: false, error: null });
+      })
+      .catch((error) => {
+        err("Failed to measure screenshot pair", error);
+        if (!cancelled) setState({ metrics: null, isLoading: false, error: String(error?.message ?? error) });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [urlA, urlB]);
+
+  return state;
+}
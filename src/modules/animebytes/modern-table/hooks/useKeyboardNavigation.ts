@@ -0,0 +1,284 @@
+import type { RefObject } from "preact";
+import { useEffect, useMemo, useRef, useState } from "preact/hooks";
+import type { GroupedTorrents, ParsedTorrentRow } from "@/types/modern-table";
+import { log } from "@/utils/logging";
+import { isSectionHiddenByGroup } from "./useSectionManagement";
+
+interface NavigationItem {
+  key: string;
+  sectionId: string | null;
+  torrent?: ParsedTorrentRow;
+}
+
+interface KeyboardNavigationOptions {
+  enabled: boolean;
+  groupedData: GroupedTorrents;
+  collapsedSections: Set<string>;
+  expandedRows: Set<string>;
+  isSeriesPage: boolean;
+  containerRef: RefObject<HTMLElement>;
+  onToggleExpanded: (torrentId: string) => void;
+  onToggleSection: (sectionId: string) => void;
+}
+
+type TabDirection = 1 | -1;
+
+// Series pages render several tables; only the last one interacted with handles keys
+const registeredTables: string[] = [];
+let activeTableId: string | null = null;
+let tableCounter = 0;
+
+// Expanded details rows register a callback so the focused one can switch tabs
+const detailsTabHandlers = new Map<string, (direction: TabDirection) => void>();
+
+/**
+ * Let the keyboard navigation switch the active tab of an expanded details row
+ */
+export function useDetailsTabNavigation(torrentId: string, onSwitchTab: (direction: TabDirection) => void) {
+  const handlerRef = useRef(onSwitchTab);
+  handlerRef.current = onSwitchTab;
+
+  useEffect(() => {
+    const handler = (direction: TabDirection) => handlerRef.current(direction);
+    detailsTabHandlers.set(torrentId, handler);
+    return () => {
+      if (detailsTabHandlers.get(torrentId) === handler) {
+        detailsTabHandlers.delete(torrentId);
+      }
+    };
+  }, [torrentId]);
+}
+
+export const sectionItemKey = (sectionId: string) => `section:${sectionId}`;
+export const torrentItemKey = (torrentId: string) => `torrent:${torrentId}`;
+
+/**
+ * Build the list of rows the user can currently see, in display order
+ */
+function buildNavigationItems(groupedData: GroupedTorrents, collapsedSections: Set<string>): NavigationItem[] {
+  const items: NavigationItem[] = [];
+
+  groupedData.sections.forEach(({ section, torrents }, sectionIndex) => {
+    if (isSectionHiddenByGroup(groupedData.sections, sectionIndex, collapsedSections)) return;
+
+    const sectionId = section?.id || `section_${sectionIndex}`;
+    if (section) {
+      items.push({ key: sectionItemKey(sectionId), sectionId });
+      if (collapsedSections.has(sectionId)) return;
+    }
+
+    for (const torrent of torrents) {
+      items.push({ key: torrentItemKey(torrent.torrentId), sectionId: section ? sectionId : null, torrent });
+    }
+  });
+
+  return items;
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return !!element?.closest?.("input, textarea, select, [contenteditable='true']");
+}
+
+export function useKeyboardNavigation({
+  enabled,
+  groupedData,
+  collapsedSections,
+  expandedRows,
+  isSeriesPage,
+  containerRef,
+  onToggleExpanded,
+  onToggleSection,
+}: KeyboardNavigationOptions) {
+  const [focusedKey, setFocusedKey] = useState<string | null>(null);
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const tableIdRef = useRef(`table_${++tableCounter}`);
+
+  const items = useMemo(() => buildNavigationItems(groupedData, collapsedSections), [groupedData, collapsedSections]);
+
+  // Register this table so the first one handles keys until another is clicked
+  useEffect(() => {
+    const tableId = tableIdRef.current;
+    registeredTables.push(tableId);
+    return () => {
+      registeredTables.splice(registeredTables.indexOf(tableId), 1);
+      if (activeTableId === tableId) activeTableId = null;
+    };
+  }, []);
+
+  const activateTable = () => {
+    activeTableId = tableIdRef.current;
+  };
+
+  // Clicking inside the table makes it the keyboard target and focuses the clicked row
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+      if (!containerRef.current?.contains(target)) return;
+
+      activateTable();
+      const row = target.closest<HTMLElement>("[data-torrent-id], [data-section-id]");
+      if (row?.dataset.torrentId) {
+        setFocusedKey(torrentItemKey(row.dataset.torrentId));
+      } else if (row?.dataset.sectionId) {
+        setFocusedKey(sectionItemKey(row.dataset.sectionId));
+      }
+    };
+
+    document.addEventListener("mousedown", handleMouseDown);
+    return () => document.removeEventListener("mousedown", handleMouseDown);
+  }, [enabled]);
+
+  // Keep the focused row visible
+  useEffect(() => {
+    if (!focusedKey) return;
+    const [kind, id] = focusedKey.split(":");
+    const attribute = kind === "section" ? "data-section-id" : "data-torrent-id";
+    const element = containerRef.current?.querySelector(`[${attribute}="${CSS.escape(id)}"]`);
+    element?.scrollIntoView({ block: "nearest" });
+  }, [focusedKey]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Any table's help overlay closes on Escape, even when another table has the keys
+      if (isHelpOpen && e.key === "Escape") {
+        e.preventDefault();
+        setIsHelpOpen(false);
+        return;
+      }
+      if ((activeTableId ?? registeredTables[0]) !== tableIdRef.current) return;
+      if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+      // The screenshot viewers use the arrow keys themselves
+      if (document.querySelector(".ab-screenshot-modal, .ab-screenshot-compare")) return;
+
+      const index = items.findIndex((item) => item.key === focusedKey);
+      const focused = index >= 0 ? items[index] : null;
+
+      const focusIndex = (nextIndex: number) => {
+        if (items.length === 0) return;
+        setFocusedKey(items[Math.max(0, Math.min(items.length - 1, nextIndex))].key);
+      };
+
+      // Jump to the next or previous section header, wrapping within the table
+      const focusSection = (direction: TabDirection) => {
+        for (let step = 1; step <= items.length; step++) {
+          const candidate = items[(((index + direction * step) % items.length) + items.length) % items.length];
+          if (!candidate.torrent) {
+            setFocusedKey(candidate.key);
+            return;
+          }
+        }
+      };
+
+      // Arrow keys keep scrolling the page until a row has been focused with j/k or a click
+      if (!focused && e.key.startsWith("Arrow")) return;
+
+      let handled = true;
+      switch (e.key) {
+        case "j":
+        case "ArrowDown":
+          focusIndex(index + 1);
+          break;
+        case "k":
+        case "ArrowUp":
+          focusIndex(index < 0 ? items.length - 1 : index - 1);
+          break;
+        case "g":
+          focusIndex(0);
+          break;
+        case "G":
+          focusIndex(items.length - 1);
+          break;
+        case "]":
+        case "J":
+          focusSection(1);
+          break;
+        case "[":
+        case "K":
+          focusSection(-1);
+          break;
+        case "Enter":
+        case "o":
+          if (focused?.torrent) {
+            if (isSeriesPage) {
+              if (focused.torrent.detailsLink) window.location.href = focused.torrent.detailsLink;
+            } else if (focused.torrent.detailsHtml) {
+              onToggleExpanded(focused.torrent.torrentId);
+            }
+          } else if (focused?.sectionId) {
+            onToggleSection(focused.sectionId);
+          } else {
+            handled = false;
+          }
+          break;
+        case "x":
+          if (focused?.sectionId) {
+            onToggleSection(focused.sectionId);
+            // Move focus to the header so it doesn't land on a hidden row
+            setFocusedKey(sectionItemKey(focused.sectionId));
+          } else {
+            handled = false;
+          }
+          break;
+        case "h":
+        case "ArrowLeft":
+        case "l":
+        case "ArrowRight": {
+          const switchTab = focused?.torrent && detailsTabHandlers.get(focused.torrent.torrentId);
+          if (switchTab && expandedRows.has(focused.torrent?.torrentId ?? "")) {
+            switchTab(e.key === "h" || e.key === "ArrowLeft" ? -1 : 1);
+          } else {
+            handled = false;
+          }
+          break;
+        }
+        case "d":
+          if (focused?.torrent?.downloadLink) {
+            log("Downloading focused torrent", focused.torrent.torrentId);
+            window.location.href = focused.torrent.downloadLink;
+          } else {
+            handled = false;
+          }
+          break;
+        case "p":
+          // torrentLink is the download URL; the details link is the torrent's permalink page
+          if (focused?.torrent?.detailsLink) {
+            window.location.href = focused.torrent.detailsLink;
+          } else {
+            handled = false;
+          }
+          break;
+        case "?":
+          setIsHelpOpen((open) => !open);
+          break;
+        case "Escape":
+          if (focusedKey) {
+            setFocusedKey(null);
+          } else {
+            handled = false;
+          }
+          break;
+        default:
+          handled = false;
+      }
+
+      if (handled) {
+        e.preventDefault();
+        activateTable();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [enabled, items, focusedKey, expandedRows, isHelpOpen, isSeriesPage, onToggleExpanded, onToggleSection]);
+
+  return {
+    focusedKey: enabled ? focusedKey : null,
+    isHelpOpen,
+    setIsHelpOpen,
+  };
+}
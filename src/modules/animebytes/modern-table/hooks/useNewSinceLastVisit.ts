@@ -0,0 +1,65 @@
+import { useEffect, useMemo, useRef } from "preact/hooks";
+import {
+  getPreviousVisit,
+  isGroupMarkedSeen,
+  markAllSeen,
+  recordVisit,
+  setNewTorrentCount,
+  useVisitUpdates,
+} from "@/stores/visits";
+import type { GroupedTorrents } from "@/types/modern-table";
+
+export function useNewSinceLastVisit(groupedData: GroupedTorrents) {
+  useVisitUpdates();
+  const titleOwner = useRef({});
+
+  const torrentIdsByGroup = useMemo(() => {
+    const byGroup = new Map<string, string[]>();
+    for (const { torrents } of groupedData.sections) {
+      for (const { groupId, torrentId } of torrents) {
+        if (!groupId) continue;
+        byGroup.set(groupId, [...(byGroup.get(groupId) ?? []), torrentId]);
+      }
+    }
+    return byGroup;
+  }, [groupedData]);
+
+  // Torrents that weren't there on the previous visit. Groups visited for the first time have nothing new.
+  const newTorrentIds = new Set<string>();
+  let lastVisit: number | null = null;
+  for (const [groupId, torrentIds] of torrentIdsByGroup) {
+    const previous = getPreviousVisit(groupId);
+    if (!previous) continue;
+
+    lastVisit = Math.max(lastVisit ?? 0, previous.lastVisit);
+    if (isGroupMarkedSeen(groupId)) continue;
+
+    const seen = new Set(previous.torrentIds);
+    for (const torrentId of torrentIds) {
+      if (!seen.has(torrentId)) newTorrentIds.add(torrentId);
+    }
+  }
+
+  // Store this visit for next time; the previous one stays available for the rest of the page view
+  useEffect(() => {
+    for (const [groupId, torrentIds] of torrentIdsByGroup) {
+      recordVisit(groupId, torrentIds);
+    }
+  }, [torrentIdsByGroup]);
+
+  const newCount = newTorrentIds.size;
+  useEffect(() => {
+    setNewTorrentCount(titleOwner.current, newCount);
+  }, [newCount]);
+
+  useEffect(() => {
+    const owner = titleOwner.current;
+    return () => setNewTorrentCount(owner, 0);
+  }, []);
+
+  return {
+    newTorrentIds,
+    lastVisit,
+    markAllSeen,
+  };
+}
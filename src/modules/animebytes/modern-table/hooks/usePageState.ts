@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useMemo, useState } from "preact/hooks";
+import {
+  getTableStateKey,
+  loadTableState,
+  restoreScrollPosition,
+  saveTableState,
+  type TablePageState,
+} from "@/stores/pageState";
+import type { GroupedTorrents, SortKey } from "@/types/modern-table";
+import { getSectionStateKey } from "./useSectionManagement";
+
+interface PersistedTableState {
+  expandedRows: Set<string>;
+  collapsedSections: Set<string>;
+  pageSortKeys: SortKey[] | undefined;
+}
+
+/**
+ * Load the state this table had when the page was last left in this tab, so a reload or a
+ * back/forward navigation opens it the way it was
+ */
+export function useSavedPageState(groupedData: GroupedTorrents, title?: string) {
+  const stateKey = useMemo(() => {
+    const firstGroupId = groupedData.sections.flatMap(({ torrents }) => torrents)[0]?.groupId;
+    return getTableStateKey(title ?? firstGroupId ?? "table");
+  }, [groupedData, title]);
+
+  // Read once; the table's own state takes over from here
+  const [savedState] = useState<TablePageState | null>(() => loadTableState(stateKey));
+  const savedActiveTabs = savedState?.activeTabs ?? {};
+
+  const saveActiveTab = useCallback(
+    (torrentId: string, tab: string) => {
+      const activeTabs = loadTableState(stateKey)?.activeTabs ?? {};
+      saveTableState(stateKey, { activeTabs: { ...activeTabs, [torrentId]: tab } });
+    },
+    [stateKey],
+  );
+
+  useEffect(() => {
+    restoreScrollPosition();
+  }, []);
+
+  return {
+    stateKey,
+    savedState,
+    savedActiveTabs,
+    saveActiveTab,
+  };
+}
+
+/**
+ * Store the table state whenever it changes
+ */
+export function usePersistPageState(
+  stateKey: string,
+  groupedData: GroupedTorrents,
+  { expandedRows, collapsedSections, pageSortKeys }: PersistedTableState,
+) {
+  useEffect(() => {
+    saveTableState(stateKey, { expandedRows: [...expandedRows] });
+  }, [stateKey, expandedRows]);
+
+  useEffect(() => {
+    const collapsedKeys = groupedData.sections.flatMap(({ section }, index) =>
+      section && collapsedSections.has(section.id) ? [getSectionStateKey(section, index)] : [],
+    );
+    saveTableState(stateKey, { collapsedSections: collapsedKeys });
+  }, [stateKey, groupedData, collapsedSections]);
+
+  useEffect(() => {
+    if (pageSortKeys) {
+      saveTableState(stateKey, { sortKeys: pageSortKeys });
+    }
+  }, [stateKey, pageSortKeys]);
+}
@@ -0,0 +1,44 @@
+import { useMemo } from "preact/hooks";
+import { useSettingsStore } from "@/stores/settings";
+import type { GroupedTorrents } from "@/types/modern-table";
+import { getActiveQualityProfile, scoreTorrent } from "../utils/quality";
+
+export function useQualityScoring(groupedData: GroupedTorrents) {
+  const { qualityScoringEnabled, qualityProfiles, activeQualityProfileId } = useSettingsStore([
+    "qualityScoringEnabled",
+    "qualityProfiles",
+    "activeQualityProfileId",
+  ]);
+
+  const profile = qualityScoringEnabled ? getActiveQualityProfile(qualityProfiles, activeQualityProfileId) : undefined;
+
+  // Score every torrent and mark the best-scoring ones in each section
+  const scoredGroupedData = useMemo(() => {
+    if (!profile) return groupedData;
+
+    return {
+      sections: groupedData.sections.map(({ section, torrents }) => {
+        const scored = torrents.map((torrent) => {
+          const { score, matches } = scoreTorrent(torrent, profile);
+          return { ...torrent, qualityScore: score, qualityMatches: matches, isQualityBest: false };
+        });
+
+        // Only highlight when the section actually has a winner
+        const scores = scored.map((torrent) => torrent.qualityScore);
+        const bestScore = Math.max(...scores);
+        if (scored.length > 1 && bestScore > Math.min(...scores)) {
+          for (const torrent of scored) {
+            torrent.isQualityBest = torrent.qualityScore === bestScore;
+          }
+        }
+
+        return { section, torrents: scored };
+      }),
+    };
+  }, [groupedData, profile]);
+
+  return {
+    qualityProfile: profile,
+    scoredGroupedData,
+  };
+}
@@ -0,0 +1,51 @@
+import { useMemo } from "preact/hooks";
+import { useSettingsStore } from "@/stores/settings";
+import type { GroupedTorrents } from "@/types/modern-table";
+import { createReleaseGroupMatcher } from "@/utils/releaseGroups";
+
+export function useReleaseGroupLists(groupedData: GroupedTorrents) {
+  const { preferredReleaseGroups, blockedReleaseGroups, blockedReleaseGroupMode } = useSettingsStore([
+    "preferredReleaseGroups",
+    "blockedReleaseGroups",
+    "blockedReleaseGroupMode",
+  ]);
+
+  // Mark torrents, pin preferred groups to the top of each section (keeping the sort order otherwise)
+  // and drop blocked groups when they should be hidden
+  const { groupListData, blockedHiddenCounts } = useMemo(() => {
+    if (preferredReleaseGroups.length === 0 && blockedReleaseGroups.length === 0) {
+      return { groupListData: groupedData, blockedHiddenCounts: groupedData.sections.map(() => 0) };
+    }
+
+    const getStatus = createReleaseGroupMatcher(preferredReleaseGroups, blockedReleaseGroups);
+    const blockedHiddenCounts: number[] = [];
+
+    const sections = groupedData.sections.map(({ section, torrents }) => {
+      const marked = torrents.map((torrent) => {
+        const releaseGroupStatus = getStatus(torrent.group);
+        return releaseGroupStatus ? { ...torrent, releaseGroupStatus } : torrent;
+      });
+
+      const visible =
+        blockedReleaseGroupMode === "hide"
+          ? marked.filter((torrent) => torrent.releaseGroupStatus !== "blocked")
+          : marked;
+      blockedHiddenCounts.push(marked.length - visible.length);
+
+      return {
+        section,
+        torrents: [
+          ...visible.filter((torrent) => torrent.releaseGroupStatus === "preferred"),
+          ...visible.filter((torrent) => torrent.releaseGroupStatus !== "preferred"),
+        ],
+      };
+    });
+
+    return { groupListData: { sections }, blockedHiddenCounts };
+  }, [groupedData, preferredReleaseGroups, blockedReleaseGroups, blockedReleaseGroupMode]);
+
+  return {
+    groupListData,
+    blockedHiddenCounts,
+  };
+}
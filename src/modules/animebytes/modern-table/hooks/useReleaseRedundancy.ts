@@ -0,0 +1,28 @@
+import { useMemo } from "preact/hooks";
+import { useSettingsStore } from "@/stores/settings";
+import type { GroupedTorrents } from "@/types/modern-table";
+import { detectRedundantReleases } from "../utils/redundancy";
+
+export function useReleaseRedundancy(groupedData: GroupedTorrents) {
+  const { duplicateDetectionEnabled } = useSettingsStore(["duplicateDetectionEnabled"]);
+
+  // Compared across sections, since a batch usually sits in a different section than its episodes
+  const redundancyGroupedData = useMemo(() => {
+    if (!duplicateDetectionEnabled) return groupedData;
+
+    const redundancies = detectRedundantReleases(groupedData.sections.flatMap(({ torrents }) => torrents));
+    if (redundancies.size === 0) return groupedData;
+
+    return {
+      sections: groupedData.sections.map(({ section, torrents }) => ({
+        section,
+        torrents: torrents.map((torrent) => {
+          const redundancy = redundancies.get(torrent.torrentId);
+          return redundancy ? { ...torrent, redundancy } : torrent;
+        }),
+      })),
+    };
+  }, [groupedData, duplicateDetectionEnabled]);
+
+  return { redundancyGroupedData };
+}
@@ -2,8 +2,13 @@ import { useEffect, useState } from "preact/hooks";
 import type { GroupedTorrents } from "@/types/modern-table";
 import { log } from "@/utils/logging";
 
-export function useRowExpansion(enhancedGroupedData: GroupedTorrents, isSeriesPage: boolean) {
-  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+export function useRowExpansion(
+  enhancedGroupedData: GroupedTorrents,
+  isSeriesPage: boolean,
+  savedExpandedRows: string[] = [],
+) {
+  // Rows expanded when the page was last left
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(() => new Set(savedExpandedRows));
 
   // Auto-expand torrent details if torrentid is in URL (torrent pages only)
   useEffect(() => {
@@ -19,7 +24,7 @@ export function useRowExpansion(enhancedGroupedData: GroupedTorrents, isSeriesPa
 
         if (torrentExists) {
           log(`Auto-expanding torrent details for torrentid=${torrentId}`);
-          setExpandedRows(new Set([torrentId]));
+          setExpandedRows((prev) => new Set([...prev, torrentId]));
         }
       }
     }
@@ -1,8 +1,41 @@
-import { useEffect, useState } from "preact/hooks";
-import type { GroupedTorrents } from "@/types/modern-table";
+import { useEffect, useRef, useState } from "preact/hooks";
+import type { GroupedTorrents, GroupHeader, TableSection } from "@/types/modern-table";
 
-export function useSectionManagement(groupedData: GroupedTorrents, sectionsCollapsedByDefault: boolean) {
+/**
+ * Key identifying a section across page loads, since section IDs are generated on every extraction
+ */
+export function getSectionStateKey(section: TableSection | GroupHeader, index: number): string {
+  return `${index}:${section.title}`;
+}
+
+/**
+ * Sections following a collapsed group header are hidden along with it
+ */
+export function isSectionHiddenByGroup(
+  sections: GroupedTorrents["sections"],
+  sectionIndex: number,
+  collapsedSections: Set<string>,
+): boolean {
+  if (sections[sectionIndex].section?.type !== "section") return false;
+
+  // Find the last group header before this section
+  for (let i = sectionIndex - 1; i >= 0; i--) {
+    const prevSection = sections[i].section;
+    if (prevSection?.type === "group") {
+      return collapsedSections.has(prevSection.id);
+    }
+  }
+  return false;
+}
+
+export function useSectionManagement(
+  groupedData: GroupedTorrents,
+  sectionsCollapsedByDefault: boolean,
+  savedCollapsedSections?: string[],
+) {
   const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
+  // Sections collapsed when the page was last left, applied on the first initialization only
+  const pendingSavedSections = useRef(savedCollapsedSections);
 
   // Initialize sections as collapsed or expanded based on setting
   useEffect(() => {
@@ -12,7 +45,19 @@ export function useSectionManagement(groupedData: GroupedTorrents, sectionsColla
       .filter((id): id is string => id !== undefined);
 
     if (sectionsWithIds.length > 0) {
-      if (sectionsCollapsedByDefault) {
+      const savedSections = pendingSavedSections.current;
+      pendingSavedSections.current = undefined;
+
+      if (savedSections) {
+        const savedKeys = new Set(savedSections);
+        setCollapsedSections(
+          new Set(
+            groupedData.sections.flatMap(({ section }, index) =>
+              section && savedKeys.has(getSectionStateKey(section, index)) ? [section.id] : [],
+            ),
+          ),
+        );
+      } else if (sectionsCollapsedByDefault) {
         setCollapsedSections(new Set(sectionsWithIds));
       } else {
         setCollapsedSections(new Set());
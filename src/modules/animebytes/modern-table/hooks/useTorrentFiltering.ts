@@ -0,0 +1,41 @@
+import { useMemo } from "preact/hooks";
+import { useFilterStore } from "@/stores/filters";
+import type { GroupedTorrents } from "@/types/modern-table";
+import { collectFilterOptions, matchesFilters } from "../utils/filtering";
+
+export function useTorrentFiltering(groupedData: GroupedTorrents) {
+  const filterStore = useFilterStore();
+  const { filters } = filterStore;
+
+  // Chips are built from every torrent in the table, regardless of active filters
+  const filterOptions = useMemo(() => collectFilterOptions(groupedData), [groupedData]);
+
+  // Filter within sections, keeping the number of hidden torrents per section
+  const { filteredGroupedData, hiddenCounts } = useMemo(() => {
+    if (filterStore.activeCount === 0) {
+      return { filteredGroupedData: groupedData, hiddenCounts: groupedData.sections.map(() => 0) };
+    }
+
+    const sections = groupedData.sections.map(({ section, torrents }) => ({
+      section,
+      torrents: torrents.filter((torrent) => matchesFilters(torrent, filters, filterOptions)),
+    }));
+
+    return {
+      filteredGroupedData: { sections },
+      hiddenCounts: sections.map(
+        ({ torrents }, index) => groupedData.sections[index].torrents.length - torrents.length,
+      ),
+    };
+  }, [groupedData, filters, filterOptions]);
+
+  const totalHidden = hiddenCounts.reduce((total, count) => total + count, 0);
+
+  return {
+    filterStore,
+    filterOptions,
+    filteredGroupedData,
+    hiddenCounts,
+    totalHidden,
+  };
+}
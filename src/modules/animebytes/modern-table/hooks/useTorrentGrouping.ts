@@ -0,0 +1,28 @@
+import { useMemo } from "preact/hooks";
+import { useSettingsStore } from "@/stores/settings";
+import type { GroupedTorrents, GroupingMode, TableType } from "@/types/modern-table";
+import { groupTorrents } from "../utils/grouping";
+
+export function useTorrentGrouping(extractedData: GroupedTorrents, tableType: TableType) {
+  const settingsStore = useSettingsStore(["groupingModes"]);
+  const { groupingModes } = settingsStore;
+  const groupingMode = groupingModes[tableType] ?? "original";
+
+  // Persist the grouping mode for this table type
+  const setGroupingMode = (mode: GroupingMode) => {
+    if (mode !== "original") {
+      settingsStore.updateSetting("groupingModes", { ...groupingModes, [tableType]: mode });
+    } else {
+      const { [tableType]: _removed, ...rest } = groupingModes;
+      settingsStore.updateSetting("groupingModes", rest);
+    }
+  };
+
+  const groupedData = useMemo(() => groupTorrents(extractedData, groupingMode), [extractedData, groupingMode]);
+
+  return {
+    groupingMode,
+    setGroupingMode,
+    groupedData,
+  };
+}
@@ -0,0 +1,42 @@
+import { useMemo } from "preact/hooks";
+import { useSettingsStore } from "@/stores/settings";
+import type { GroupedTorrents } from "@/types/modern-table";
+import { assessTorrentHealth } from "../utils/health";
+
+export function useTorrentHealth(groupedData: GroupedTorrents) {
+  const { healthLowSeeders, healthDyingSeeders, healthOldTorrentDays, healthLargeTorrentGiB, reseedMinSnatches } =
+    useSettingsStore([
+      "healthLowSeeders",
+      "healthDyingSeeders",
+      "healthOldTorrentDays",
+      "healthLargeTorrentGiB",
+      "reseedMinSnatches",
+    ]);
+
+  // Rate every torrent so the health column can render and sort without the settings
+  const healthGroupedData = useMemo(() => {
+    const thresholds = {
+      lowSeeders: healthLowSeeders,
+      dyingSeeders: healthDyingSeeders,
+      oldTorrentDays: healthOldTorrentDays,
+      largeTorrentGiB: healthLargeTorrentGiB,
+      reseedMinSnatches,
+    };
+
+    return {
+      sections: groupedData.sections.map(({ section, torrents }) => ({
+        section,
+        torrents: torrents.map((torrent) => ({ ...torrent, health: assessTorrentHealth(torrent, thresholds) })),
+      })),
+    };
+  }, [
+    groupedData,
+    healthLowSeeders,
+    healthDyingSeeders,
+    healthOldTorrentDays,
+    healthLargeTorrentGiB,
+    reseedMinSnatches,
+  ]);
+
+  return { healthGroupedData };
+}
@@ -0,0 +1,60 @@
+import { useMemo, useState } from "preact/hooks";
+import type { GroupedTorrents } from "@/types/modern-table";
+import type { SelectedTorrent } from "../utils/bulkDownload";
+
+export function useTorrentSelection(groupedData: GroupedTorrents) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const toggleSelected = (torrentId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(torrentId)) {
+        next.delete(torrentId);
+      } else {
+        next.add(torrentId);
+      }
+      return next;
+    });
+  };
+
+  // Select or deselect a batch of torrents, e.g. a whole section
+  const setSelected = (torrentIds: string[], selected: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      for (const id of torrentIds) {
+        if (selected) {
+          next.add(id);
+        } else {
+          next.delete(id);
+        }
+      }
+      return next;
+    });
+  };
+
+  const clearSelection = () => setSelectedIds(new Set());
+
+  // Resolve selections against the unfiltered data so hidden torrents stay selected, in table order
+  const selectedEntries = useMemo(() => {
+    const entries: SelectedTorrent[] = [];
+    for (const { section, torrents } of groupedData.sections) {
+      for (const torrent of torrents) {
+        if (selectedIds.has(torrent.torrentId)) {
+          entries.push({ torrent, sectionTitle: section?.title ?? "" });
+        }
+      }
+    }
+    return entries;
+  }, [groupedData, selectedIds]);
+
+  const selectedTorrents = useMemo(() => selectedEntries.map(({ torrent }) => torrent), [selectedEntries]);
+
+  return {
+    selectedIds,
+    selectedEntries,
+    selectedTorrents,
+    toggleSelected,
+    setSelected,
+    clearSelection,
+  };
+}
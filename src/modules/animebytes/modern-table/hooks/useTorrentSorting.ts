@@ -1,44 +1,76 @@
 import { useMemo, useState } from "preact/hooks";
-import type { GroupedTorrents, SortColumn, SortDirection } from "@/types/modern-table";
+import { useSettingsStore } from "@/stores/settings";
+import type { GroupedTorrents, SortColumn, SortKey, TableType } from "@/types/modern-table";
 import { sortTorrents } from "../utils/sorting";
 
-export function useTorrentSorting(enhancedGroupedData: GroupedTorrents) {
-  const [sortColumn, setSortColumn] = useState<SortColumn>(null);
-  const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
-
-  // Handle sorting
-  const handleSort = (column: SortColumn) => {
-    if (sortColumn === column) {
-      // Cycle through: asc -> desc -> unsorted
-      if (sortDirection === "asc") {
-        setSortDirection("desc");
-      } else {
-        // Reset to unsorted state
-        setSortColumn(null);
-        setSortDirection("asc");
-      }
+const NO_SORT: SortKey[] = [];
+
+/**
+ * Compute the sort keys after a header click.
+ * A plain click makes the column the only sort key, cycling asc -> desc -> unsorted when it already is.
+ * A shift-click adds the column as an extra key, or cycles it in place (removing it after desc).
+ */
+function getNextSortKeys(sortKeys: SortKey[], column: NonNullable<SortColumn>, additive: boolean): SortKey[] {
+  const existing = sortKeys.find((key) => key.column === column);
+
+  if (!additive) {
+    if (sortKeys.length === 1 && existing) {
+      return existing.direction === "asc" ? [{ column, direction: "desc" }] : [];
+    }
+    return [{ column, direction: "asc" }];
+  }
+
+  if (!existing) {
+    return [...sortKeys, { column, direction: "asc" }];
+  }
+
+  if (existing.direction === "asc") {
+    return sortKeys.map((key) => (key.column === column ? { column, direction: "desc" } : key));
+  }
+
+  return sortKeys.filter((key) => key.column !== column);
+}
+
+export function useTorrentSorting(
+  enhancedGroupedData: GroupedTorrents,
+  tableType: TableType,
+  savedPageSortKeys?: SortKey[],
+) {
+  const settingsStore = useSettingsStore(["sortOrders"]);
+  const { sortOrders } = settingsStore;
+  // Sort chosen on this page, which wins over the saved sort order of the table type
+  const [pageSortKeys, setPageSortKeys] = useState<SortKey[] | undefined>(savedPageSortKeys);
+  const sortKeys = pageSortKeys ?? sortOrders[tableType] ?? NO_SORT;
+
+  // Handle sorting, persisting the resulting sort order for this page and table type
+  const handleSort = (column: SortColumn, additive = false) => {
+    if (!column) return;
+
+    const next = getNextSortKeys(sortKeys, column, additive);
+    setPageSortKeys(next);
+    if (next.length > 0) {
+      settingsStore.updateSetting("sortOrders", { ...sortOrders, [tableType]: next });
     } else {
-      // New column, start with ascending
-      setSortColumn(column);
-      setSortDirection("asc");
+      const { [tableType]: _removed, ...rest } = sortOrders;
+      settingsStore.updateSetting("sortOrders", rest);
     }
   };
 
   // Memoized sorted grouped data - sort within groups, preserve group order
   const sortedGroupedData = useMemo(() => {
-    if (!sortColumn) return enhancedGroupedData;
+    if (sortKeys.length === 0) return enhancedGroupedData;
 
     return {
       sections: enhancedGroupedData.sections.map(({ section, torrents: sectionTorrents }) => ({
         section,
-        torrents: sortTorrents([...sectionTorrents], sortColumn, sortDirection),
+        torrents: sortTorrents([...sectionTorrents], sortKeys),
       })),
     };
-  }, [enhancedGroupedData, sortColumn, sortDirection]);
+  }, [enhancedGroupedData, sortKeys]);
 
   return {
-    sortColumn,
-    sortDirection,
+    sortKeys,
+    pageSortKeys,
     handleSort,
     sortedGroupedData,
   };
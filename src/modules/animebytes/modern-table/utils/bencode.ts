@@ -0,0 +1,141 @@
+/**
+ * Decoded bencode: integers, byte strings, lists and dictionaries. Byte strings stay raw,
+ * since torrent files mix text with binary data such as piece hashes.
+ */
+export type BencodeValue = number | Uint8Array | BencodeValue[] | BencodeDictionary;
+
+export interface BencodeDictionary {
+  [key: string]: BencodeValue;
+}
+
+export interface DecodedBencode {
+  value: BencodeValue;
+  /** Byte range of every value in the top-level dictionary, e.g. to hash the "info" dictionary */
+  ranges: Map<string, [start: number, end: number]>;
+}
+
+export class BencodeError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+  ) {
+    super(`${message} at byte ${position}`);
+    this.name = "BencodeError";
+  }
+}
+
+const textDecoder = new TextDecoder();
+
+// ASCII codes of the bencode delimiters
+const CHAR_D = 0x64;
+const CHAR_E = 0x65;
+const CHAR_I = 0x69;
+const CHAR_L = 0x6c;
+const CHAR_COLON = 0x3a;
+const CHAR_0 = 0x30;
+const CHAR_9 = 0x39;
+
+class BencodeDecoder {
+  private position = 0;
+  readonly ranges = new Map<string, [number, number]>();
+
+  constructor(private readonly data: Uint8Array) {}
+
+  decodeDocument(): BencodeValue {
+    const value = this.decode(0);
+    if (this.position !== this.data.length) {
+      throw new BencodeError("Unexpected data after the end", this.position);
+    }
+    return value;
+  }
+
+  private decode(depth: number): BencodeValue {
+    const byte = this.data[this.position];
+    if (byte === undefined) throw new BencodeError("Unexpected end of data", this.position);
+
+    if (byte === CHAR_I) return this.decodeInteger();
+    if (byte === CHAR_L) return this.decodeList(depth);
+    if (byte === CHAR_D) return this.decodeDictionary(depth);
+    if (byte >= CHAR_0 && byte <= CHAR_9) return this.decodeBytes();
+    throw new BencodeError(`Unexpected character "${String.fromCharCode(byte)}"`, this.position);
+  }
+
+  private readUntil(delimiter: number): string {
+    const end = this.data.indexOf(delimiter, this.position);
+    if (end === -1) throw new BencodeError("Unterminated value", this.position);
+
+    const text = textDecoder.decode(this.data.subarray(this.position, end));
+    this.position = end + 1;
+    return text;
+  }
+
+  private decodeInteger(): number {
+    const start = this.position;
+    this.position++;
+    const text = this.readUntil(CHAR_E);
+    if (!/^(0|-?[1-9]\d*)$/.test(text)) throw new BencodeError(`Invalid integer "${text}"`, start);
+    return Number(text);
+  }
+
+  private decodeBytes(): Uint8Array {
+    const start = this.position;
+    const text = this.readUntil(CHAR_COLON);
+    if (!/^\d+$/.test(text)) throw new BencodeError(`Invalid string length "${text}"`, start);
+
+    const end = this.position + Number(text);
+    if (end > this.data.length) throw new BencodeError("String runs past the end of data", start);
+
+    const bytes = this.data.subarray(this.position, end);
+    this.position = end;
+    return bytes;
+  }
+
+  private decodeList(depth: number): BencodeValue[] {
+    this.position++;
+    const list: BencodeValue[] = [];
+    while (this.data[this.position] !== CHAR_E) {
+      list.push(this.decode(depth + 1));
+    }
+    this.position++;
+    return list;
+  }
+
+  private decodeDictionary(depth: number): BencodeDictionary {
+    this.position++;
+    const dictionary: BencodeDictionary = {};
+    while (this.data[this.position] !== CHAR_E) {
+      const keyStart = this.position;
+      const key = this.decode(depth + 1);
+      if (!(key instanceof Uint8Array)) throw new BencodeError("Dictionary key is not a string", keyStart);
+
+      const name = textDecoder.decode(key);
+      const valueStart = this.position;
+      dictionary[name] = this.decode(depth + 1);
+      if (depth === 0) {
+        this.ranges.set(name, [valueStart, this.position]);
+      }
+    }
+    this.position++;
+    return dictionary;
+  }
+}
+
+/**
+ * Decode a bencoded document, such as a .torrent file. Throws a BencodeError on malformed data.
+ */
+export function decodeBencode(data: Uint8Array): DecodedBencode {
+  const decoder = new BencodeDecoder(data);
+  const value = decoder.decodeDocument();
+  return { value, ranges: decoder.ranges };
+}
+
+export function isBencodeDictionary(value: BencodeValue | undefined): value is BencodeDictionary {
+  return typeof value === "object" && !(value instanceof Uint8Array) && !Array.isArray(value);
+}
+
+/**
+ * Read a byte string as UTF-8 text, or undefined when the value isn't a string
+ */
+export function bencodeText(value: BencodeValue | undefined): string | undefined {
+  return value instanceof Uint8Array ? textDecoder.decode(value) : undefined;
+}
@@ -0,0 +1,132 @@
+import type { ParsedTorrentRow } from "@/types/modern-table";
+import { err, log } from "@/utils/logging";
+
+export interface SelectedTorrent {
+  torrent: ParsedTorrentRow;
+  sectionTitle: string;
+}
+
+export interface BulkDownloadFailure {
+  torrentId: string;
+  filename: string;
+  error: string;
+}
+
+export interface BulkDownloadProgress {
+  total: number;
+  completed: number;
+  failures: BulkDownloadFailure[];
+  isRunning: boolean;
+  isCancelled: boolean;
+}
+
+// Characters that aren't allowed in filenames on at least one platform
+export const INVALID_FILENAME_CHARS = /[<>:"/\\|?*]/g;
+
+/**
+ * Title of the group or series page, without the site suffix
+ */
+export function getPageTitle(): string {
+  // Without the new torrent count shown in the title on group pages
+  return document.title
+    .split("::")[0]
+    .replace(/^\(\d+ new\)\s*/, "")
+    .trim();
+}
+
+/**
+ * Fill a filename template, dropping separators and brackets left empty by missing values
+ */
+export function formatDownloadFilename(template: string, { torrent, sectionTitle }: SelectedTorrent): string {
+  const tokens: Record<string, string> = {
+    page: getPageTitle(),
+    section: sectionTitle,
+    group: torrent.group,
+    name: torrent.name.replace(/^»\s*/, ""),
+    resolution: torrent.resolution,
+    source: torrent.format,
+    torrentId: torrent.torrentId,
+    groupId: torrent.groupId,
+  };
+
+  const filename = template
+    .replace(/\{(\w+)\}/g, (match, token: string) => (token in tokens ? tokens[token].trim() : match))
+    .replace(INVALID_FILENAME_CHARS, "_")
+    .replace(/\[\s*\]|\(\s*\)/g, "")
+    .replace(/(\s*-\s*){2,}/g, " - ")
+    .replace(/^[\s-]+|[\s-]+$/g, "")
+    .replace(/\s{2,}/g, " ");
+
+  return `${filename || torrent.torrentId}.torrent`;
+}
+
+function downloadFile(url: string, name: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    GM_download({
+      url,
+      name,
+      onload: () => resolve(),
+      onerror: (error) => reject(new Error(error.details ? `${error.error}: ${error.details}` : error.error)),
+      ontimeout: () => reject(new Error("Timed out")),
+    });
+  });
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Download torrents one at a time with a pause between each, reporting progress after every file.
+ * A failed download is recorded and the queue moves on.
+ */
+export async function downloadTorrents(
+  items: SelectedTorrent[],
+  options: {
+    template: string;
+    delayMs: number;
+    isCancelled: () => boolean;
+    onProgress: (progress: BulkDownloadProgress) => void;
+  },
+): Promise<void> {
+  const progress: BulkDownloadProgress = {
+    total: items.length,
+    completed: 0,
+    failures: [],
+    isRunning: true,
+    isCancelled: false,
+  };
+  options.onProgress({ ...progress });
+  log("Starting bulk download", { count: items.length, delayMs: options.delayMs });
+
+  for (const [index, item] of items.entries()) {
+    if (options.isCancelled()) {
+      progress.isCancelled = true;
+      break;
+    }
+
+    const filename = formatDownloadFilename(options.template, item);
+    try {
+      if (!item.torrent.downloadLink) {
+        throw new Error("No download link");
+      }
+      await downloadFile(new URL(item.torrent.downloadLink, window.location.origin).href, filename);
+    } catch (error) {
+      err(`Bulk download failed for torrent ${item.torrent.torrentId}:`, error);
+      progress.failures.push({
+        torrentId: item.torrent.torrentId,
+        filename,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    progress.completed++;
+    options.onProgress({ ...progress, failures: [...progress.failures] });
+
+    if (index < items.length - 1) {
+      await wait(options.delayMs);
+    }
+  }
+
+  progress.isRunning = false;
+  options.onProgress({ ...progress, failures: [...progress.failures] });
+  log("Bulk download finished", { completed: progress.completed, failed: progress.failures.length });
+}
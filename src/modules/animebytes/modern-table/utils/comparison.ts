@@ -0,0 +1,140 @@
+import { parseMediaInfo } from "mi-parser";
+import type { ParsedTorrentRow, TorrentDetailsData } from "@/types/modern-table";
+import { err } from "@/utils/logging";
+import { extractTorrentDetailsData } from "../details-extraction";
+import { formatBitrate, formatFrameRate } from "./mediainfo";
+
+export const MAX_COMPARED_TORRENTS = 4;
+
+type ParsedMediaInfo = NonNullable<ReturnType<typeof parseMediaInfo>>;
+type VideoTrack = NonNullable<ParsedMediaInfo["video"]>[number];
+type AudioTrack = NonNullable<ParsedMediaInfo["audio"]>[number];
+type TextTrack = NonNullable<ParsedMediaInfo["text"]>[number];
+
+export interface ComparisonSource {
+  torrent: ParsedTorrentRow;
+  details: TorrentDetailsData | null;
+  mediaInfo: ParsedMediaInfo | null;
+}
+
+export interface ComparisonRow {
+  label: string;
+  values: string[];
+  differs: boolean;
+}
+
+export interface ComparisonGroup {
+  title: string;
+  rows: ComparisonRow[];
+}
+
+const EMPTY_VALUE = "—";
+
+/**
+ * Extract the details tabs and parse the MediaInfo of a torrent. Torrents without a
+ * details row (series pages) still compare on their table columns.
+ */
+export function buildComparisonSource(torrent: ParsedTorrentRow): ComparisonSource {
+  if (!torrent.detailsHtml) {
+    return { torrent, details: null, mediaInfo: null };
+  }
+
+  try {
+    const details = extractTorrentDetailsData(torrent.torrentId, torrent.groupId, torrent.detailsHtml);
+    const mediaInfo = details.mediaInfo ? parseMediaInfo(details.mediaInfo) || null : null;
+    return { torrent, details, mediaInfo };
+  } catch (error) {
+    err(`Error preparing comparison for torrent ${torrent.torrentId}:`, error);
+    return { torrent, details: null, mediaInfo: null };
+  }
+}
+
+/**
+ * Build a row, flagging it when any torrent's value differs from the others
+ */
+function createRow(label: string, sources: ComparisonSource[], getValue: (source: ComparisonSource) => string) {
+  const values = sources.map((source) => getValue(source).trim() || EMPTY_VALUE);
+  return { label, values, differs: new Set(values).size > 1 };
+}
+
+/**
+ * Create one group per track index so the nth track of every torrent lines up
+ */
+function createTrackGroups<T>(
+  title: string,
+  sources: ComparisonSource[],
+  getTracks: (source: ComparisonSource) => T[] | undefined,
+  fields: Array<[string, (track: T) => string]>,
+): ComparisonGroup[] {
+  const trackCount = Math.max(0, ...sources.map((source) => getTracks(source)?.length ?? 0));
+  const groups: ComparisonGroup[] = [];
+
+  for (let index = 0; index < trackCount; index++) {
+    groups.push({
+      title: trackCount > 1 ? `${title} #${index + 1}` : title,
+      rows: fields.map(([label, getValue]) =>
+        createRow(label, sources, (source) => {
+          const track = getTracks(source)?.[index];
+          return track ? getValue(track) : "";
+        }),
+      ),
+    });
+  }
+
+  return groups;
+}
+
+/**
+ * Align the properties of the compared torrents into labelled rows
+ */
+export function buildComparisonGroups(sources: ComparisonSource[]): ComparisonGroup[] {
+  const overview: ComparisonGroup = {
+    title: "Release",
+    rows: [
+      createRow("Group", sources, ({ torrent }) => torrent.group),
+      createRow("Source", sources, ({ torrent }) => torrent.format),
+      createRow("Container", sources, ({ torrent }) => torrent.container),
+      createRow("Size", sources, ({ torrent }) => torrent.size),
+      createRow("Files", sources, ({ details }) => (details ? String(details.filelist.length) : "")),
+      createRow("Flags", sources, ({ torrent }) => torrent.flags.join(", ")),
+      createRow("Uploader", sources, ({ details }) => details?.uploadDescription.uploader.name ?? ""),
+      createRow("Uploaded", sources, ({ details }) => details?.uploadDescription.uploadDate.absolute ?? ""),
+      createRow("Seeders", sources, ({ torrent }) => torrent.seeders),
+      createRow("Snatches", sources, ({ torrent }) => torrent.snatches),
+    ],
+  };
+
+  const video = createTrackGroups<VideoTrack>("Video", sources, ({ mediaInfo }) => mediaInfo?.video, [
+    ["Codec", (track) => track.format || ""],
+    ["Resolution", (track) => (track.width && track.height ? `${track.width}x${track.height}` : "")],
+    ["Aspect ratio", (track) => track.displayAspectRatio || ""],
+    ["Bit depth", (track) => (track.bitDepth ? `${track.bitDepth}-bit` : "")],
+    ["Frame rate", (track) => formatFrameRate(track.frameRate)],
+    ["Bitrate", (track) => formatBitrate(track.bitRate)],
+  ]);
+
+  // Fall back to the table columns when the MediaInfo couldn't be parsed
+  if (video.length === 0) {
+    video.push({
+      title: "Video",
+      rows: [
+        createRow("Codec", sources, ({ torrent }) => torrent.videoCodec),
+        createRow("Resolution", sources, ({ torrent }) => torrent.resolution),
+      ],
+    });
+  }
+
+  const audio = createTrackGroups<AudioTrack>("Audio", sources, ({ mediaInfo }) => mediaInfo?.audio, [
+    ["Language", (track) => track.language || ""],
+    ["Codec", (track) => track.format || ""],
+    ["Channels", (track) => (track.channels ? String(track.channels) : "")],
+    ["Bitrate", (track) => formatBitrate(track.bitRate)],
+  ]);
+
+  const subtitles = createTrackGroups<TextTrack>("Subtitles", sources, ({ mediaInfo }) => mediaInfo?.text, [
+    ["Language", (track) => track.language || ""],
+    ["Format", (track) => track.format || ""],
+  ]);
+
+  return [overview, ...video, ...audio, ...subtitles];
+}
@@ -0,0 +1,84 @@
+import type { StoredFile, StoredGroupFilelists } from "@/stores/filelists";
+import type { FilelistItem } from "@/types/modern-table";
+import { parseSizeToBytes } from "./sorting";
+
+// Fonts, NFOs and other small files match by accident too often to make a candidate on their own
+const MIN_MATCHED_FILE_BYTES = 1024 ** 2;
+
+export interface CrossSeedMatch {
+  torrentId: string;
+  groupId: string;
+  groupTitle: string;
+  label: string;
+  link: string;
+  /** Names of the other torrent's files that are in ours */
+  matchedFiles: string[];
+  totalFiles: number;
+  /** Every file of the other torrent is in ours with the same name and size, so our data can likely seed it */
+  isComplete: boolean;
+  /** Every matched file was compared by byte count rather than the rounded size shown in the filelist */
+  isExactSize: boolean;
+}
+
+const getBasename = (filename: string) => filename.split("/").pop() ?? filename;
+
+/**
+ * Files are matched by name, ignoring folders, and by their exact size when the site lists it
+ */
+function getFileKey({ name, size, bytes }: StoredFile): string {
+  return `${name.toLowerCase()}|${bytes ?? size}`;
+}
+
+const isMatchable = ({ size, bytes }: StoredFile) => (bytes ?? parseSizeToBytes(size)) >= MIN_MATCHED_FILE_BYTES;
+
+/**
+ * A filelist in the form it's stored in
+ */
+export function getStoredFiles(filelist: FilelistItem[]): StoredFile[] {
+  return filelist.map(({ filename, size, bytes }) => ({ name: getBasename(filename), size, bytes }));
+}
+
+/**
+ * Find stored torrents sharing files with ours, fully matching ones first, exact sizes before rounded ones,
+ * then by the number of shared files.
+ * A torrent is only a candidate when at least one large file matches.
+ */
+export function findCrossSeeds(
+  torrentId: string,
+  filelist: FilelistItem[],
+  groups: StoredGroupFilelists[],
+): CrossSeedMatch[] {
+  const ownFiles = getStoredFiles(filelist);
+  if (!ownFiles.some(isMatchable)) return [];
+  const ownKeys = new Set(ownFiles.map(getFileKey));
+
+  const matches: CrossSeedMatch[] = [];
+  for (const group of groups) {
+    for (const torrent of group.torrents) {
+      if (torrent.torrentId === torrentId || torrent.files.length === 0) continue;
+
+      const matched = torrent.files.filter((file) => ownKeys.has(getFileKey(file)));
+      if (!matched.some(isMatchable)) continue;
+
+      matches.push({
+        torrentId: torrent.torrentId,
+        groupId: group.groupId,
+        groupTitle: group.title,
+        label: torrent.label,
+        link: `/torrents.php?id=${group.groupId}&torrentid=${torrent.torrentId}`,
+        matchedFiles: matched.map(({ name }) => name),
+        totalFiles: torrent.files.length,
+        isComplete: matched.length === torrent.files.length,
+        // A displayed size is rounded, so only byte counts prove the files are identical
+        isExactSize: matched.every(({ bytes }) => bytes !== undefined),
+      });
+    }
+  }
+
+  return matches.sort(
+    (a, b) =>
+      Number(b.isComplete) - Number(a.isComplete) ||
+      Number(b.isExactSize) - Number(a.isExactSize) ||
+      b.matchedFiles.length - a.matchedFiles.length,
+  );
+}
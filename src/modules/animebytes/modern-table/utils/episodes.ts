@@ -0,0 +1,141 @@
+import type { FilelistItem } from "@/types/modern-table";
+
+const VIDEO_EXTENSIONS = /\.(mkv|mp4|avi|m2ts|ts|webm|wmv|ogm|m4v)$/i;
+
+// Checked against the file name and its folders, first match wins
+const EXTRA_TYPES: Array<[RegExp, string]> = [
+  [/\bNC(OP|ED)\s*\d*\b|\bcreditless\b/i, "Creditless OP/ED"],
+  [/\b(menu|menus)\b/i, "Menus"],
+  [/\b(PV|CM|trailer|teaser|preview|promo)s?\s*\d*\b/i, "Previews & promos"],
+  [/\b(SP|SPs|special|specials|OVA|OAD)\s*\d*\b/i, "Specials"],
+  [/\b(extras?|bonus|omake|making of|interview)\b/i, "Extras"],
+];
+
+export interface ParsedEpisodeFile {
+  filename: string;
+  size: string;
+  episode: number | null;
+  version: number | null;
+  crc32: string | null;
+  /** Label of the extra type, null for regular episodes */
+  extraType: string | null;
+}
+
+export interface EpisodeCoverage {
+  /** Episode numbers shown in the coverage bar, in order */
+  range: number[];
+  episodes: Map<number, ParsedEpisodeFile[]>;
+  missing: number[];
+  duplicates: number[];
+  extras: Map<string, ParsedEpisodeFile[]>;
+  expectedCount: number | null;
+  /** null when the expected episode count is unknown */
+  isComplete: boolean | null;
+}
+
+/**
+ * Pull the episode number, version, CRC32 and extra type out of a file name, e.g.
+ * "[Group] Show - 05v2 (1080p) [ABCD1234].mkv" -> episode 5, version 2, CRC ABCD1234
+ */
+export function parseEpisodeFilename(filename: string, size = ""): ParsedEpisodeFile {
+  const parts = filename.split("/");
+  const basename = parts[parts.length - 1];
+  const crc32 = basename.match(/[[(]([0-9A-F]{8})[\])]/i)?.[1].toUpperCase() ?? null;
+
+  // Group tags, CRCs and technical details sit in brackets and would read as numbers
+  const name = basename
+    .replace(/\.[^.]+$/, "")
+    .replace(/\[[^\]]*\]|\([^)]*\)/g, " ")
+    .replace(/\b(\d{3,4}[pi]|[xh]\.?26[45]|\d+bit|hi10p?|\d+ch|[257]\.1|dts|aac|flac)\b/gi, " ");
+
+  const extraType = EXTRA_TYPES.find(([pattern]) => parts.some((part) => pattern.test(part)))?.[1] ?? null;
+
+  const match =
+    name.match(/\bS\d{1,2}E(\d{1,4})(?:v(\d))?\b/i) ||
+    name.match(/\b(?:E|EP|Ep\.?|Episode)\s?(\d{1,4})(?:v(\d))?\b/i) ||
+    name.match(/\s-\s(\d{1,4})(?:v(\d))?(?:\s|$)/) ||
+    // Last standalone number, since titles like "Show 2" put theirs first
+    [...name.matchAll(/(?:^|\s)(\d{1,3})(?:v(\d))?(?=\s|$)/g)].pop();
+
+  return {
+    filename,
+    size,
+    episode: match ? Number.parseInt(match[1], 10) : null,
+    version: match?.[2] ? Number.parseInt(match[2], 10) : null,
+    crc32,
+    extraType,
+  };
+}
+
+/**
+ * Work out which episodes a batch contains. Only video files count, so bundled subtitles
+ * and fonts don't show up as duplicates. Without an expected count, the range runs from
+ * the first to the last episode found.
+ */
+export function analyzeEpisodeCoverage(filelist: FilelistItem[], expectedCount: number | null): EpisodeCoverage {
+  const episodes = new Map<number, ParsedEpisodeFile[]>();
+  const extras = new Map<string, ParsedEpisodeFile[]>();
+
+  for (const { filename, size } of filelist) {
+    if (!VIDEO_EXTENSIONS.test(filename)) continue;
+
+    const parsed = parseEpisodeFilename(filename, size);
+    if (parsed.extraType) {
+      extras.set(parsed.extraType, [...(extras.get(parsed.extraType) ?? []), parsed]);
+    } else if (parsed.episode !== null) {
+      episodes.set(parsed.episode, [...(episodes.get(parsed.episode) ?? []), parsed]);
+    }
+  }
+
+  const numbers = [...episodes.keys()].sort((a, b) => a - b);
+  const first = expectedCount ? Math.min(1, ...numbers) : (numbers[0] ?? 1);
+  const last = Math.max(expectedCount ?? 0, ...numbers);
+  const range = numbers.length > 0 ? Array.from({ length: last - first + 1 }, (_, index) => first + index) : [];
+
+  const missing = range.filter((episode) => !episodes.has(episode));
+  const duplicates = numbers.filter((episode) => (episodes.get(episode)?.length ?? 0) > 1);
+
+  let isComplete: boolean | null = null;
+  if (expectedCount) {
+    isComplete = Array.from({ length: expectedCount }, (_, index) => index + 1).every((episode) =>
+      episodes.has(episode),
+    );
+  }
+
+  return { range, episodes, missing, duplicates, extras, expectedCount, isComplete };
+}
+
+/**
+ * Highest version of every regular episode in a filelist; files without a version tag count as v1
+ */
+export function getEpisodeVersions(filelist: FilelistItem[]): Map<number, number> {
+  const versions = new Map<number, number>();
+
+  for (const { filename } of filelist) {
+    if (!VIDEO_EXTENSIONS.test(filename)) continue;
+
+    const { episode, version, extraType } = parseEpisodeFilename(filename);
+    if (extraType || episode === null) continue;
+    versions.set(episode, Math.max(versions.get(episode) ?? 0, version ?? 1));
+  }
+
+  return versions;
+}
+
+/**
+ * Compress episode numbers into ranges, e.g. [1, 2, 3, 7] -> "1-3, 7"
+ */
+export function formatEpisodeRanges(numbers: number[]): string {
+  const ranges: string[] = [];
+  let start = numbers[0];
+
+  for (let index = 1; index <= numbers.length; index++) {
+    if (numbers[index] !== numbers[index - 1] + 1) {
+      const end = numbers[index - 1];
+      ranges.push(start === end ? String(start) : `${start}-${end}`);
+      start = numbers[index];
+    }
+  }
+
+  return ranges.join(", ");
+}
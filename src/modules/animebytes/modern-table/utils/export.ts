@@ -0,0 +1,160 @@
+import type { ColumnId, GroupedTorrents, ParsedTorrentRow } from "@/types/modern-table";
+import { type CellRenderOptions, getColumnDefinition, getColumnText } from "../columns";
+import { INVALID_FILENAME_CHARS } from "./bulkDownload";
+
+export type ExportFormat = "csv" | "json" | "markdown" | "bbcode";
+
+interface ExportRow {
+  section: string;
+  torrent: ParsedTorrentRow;
+  values: string[];
+  permalink: string;
+}
+
+interface ExportData {
+  title: string;
+  columns: ColumnId[];
+  headers: string[];
+  rows: ExportRow[];
+}
+
+/**
+ * Flatten the visible sections into rows, in display order. Sections under a group
+ * header (series pages) are titled with both, e.g. "2024 - TV Series - Episode 3".
+ */
+export function buildExportData(
+  title: string,
+  groupedData: GroupedTorrents,
+  columns: ColumnId[],
+  options: CellRenderOptions,
+): ExportData {
+  const rows: ExportRow[] = [];
+  let groupTitle = "";
+
+  for (const { section, torrents } of groupedData.sections) {
+    if (section?.type === "group") {
+      groupTitle = section.title;
+    }
+    const sectionTitle = section?.type === "section" ? [groupTitle, section.title] : [section?.title ?? ""];
+
+    for (const torrent of torrents) {
+      rows.push({
+        section: sectionTitle.filter(Boolean).join(" - "),
+        torrent,
+        values: columns.map((id) => getColumnText(id, torrent, options)),
+        permalink: torrent.detailsLink ? new URL(torrent.detailsLink, window.location.origin).href : "",
+      });
+    }
+  }
+
+  return {
+    title,
+    columns,
+    headers: columns.map((id) => getColumnDefinition(id).label),
+    rows,
+  };
+}
+
+// Consecutive rows sharing a section, so table formats can print one heading per section
+function groupRowsBySection(rows: ExportRow[]): Array<{ section: string; rows: ExportRow[] }> {
+  const groups: Array<{ section: string; rows: ExportRow[] }> = [];
+  for (const row of rows) {
+    const last = groups[groups.length - 1];
+    if (last && last.section === row.section) {
+      last.rows.push(row);
+    } else {
+      groups.push({ section: row.section, rows: [row] });
+    }
+  }
+  return groups;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toCsv({ headers, rows }: ExportData): string {
+  const lines = [
+    ["Section", ...headers, "Permalink"],
+    ...rows.map((row) => [row.section, ...row.values, row.permalink]),
+  ];
+  return lines.map((line) => line.map(escapeCsv).join(",")).join("\r\n");
+}
+
+function toJson({ title, columns, rows }: ExportData): string {
+  const torrents = rows.map((row) => ({
+    section: row.section,
+    torrentId: row.torrent.torrentId,
+    groupId: row.torrent.groupId,
+    ...Object.fromEntries(columns.map((id, index) => [id, row.values[index]])),
+    permalink: row.permalink,
+  }));
+  return JSON.stringify({ title, exportedAt: new Date().toISOString(), torrents }, null, 2);
+}
+
+const escapeMarkdown = (value: string) => value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+function toMarkdown({ title, headers, rows }: ExportData): string {
+  const lines = title ? [`## ${title}`, ""] : [];
+
+  for (const group of groupRowsBySection(rows)) {
+    if (group.section) {
+      lines.push(`### ${group.section}`, "");
+    }
+    lines.push(`| ${[...headers, "Link"].map(escapeMarkdown).join(" | ")} |`);
+    lines.push(`| ${[...headers, "Link"].map(() => "---").join(" | ")} |`);
+    for (const row of group.rows) {
+      const link = row.permalink ? `[Link](${row.permalink})` : "";
+      lines.push(`| ${[...row.values.map(escapeMarkdown), link].join(" | ")} |`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n").trim();
+}
+
+const escapeBBCode = (value: string) => value.replace(/\[/g, "(").replace(/\]/g, ")");
+
+function toBBCode({ title, headers, rows }: ExportData): string {
+  const lines = title ? [`[size=4][b]${escapeBBCode(title)}[/b][/size]`] : [];
+
+  for (const group of groupRowsBySection(rows)) {
+    if (group.section) {
+      lines.push(`[b]${escapeBBCode(group.section)}[/b]`);
+    }
+    lines.push("[table]");
+    lines.push(`[tr]${[...headers, "Link"].map((header) => `[th]${escapeBBCode(header)}[/th]`).join("")}[/tr]`);
+    for (const row of group.rows) {
+      const cells = row.values.map((value) => `[td]${escapeBBCode(value)}[/td]`);
+      cells.push(`[td]${row.permalink ? `[url=${row.permalink}]Link[/url]` : ""}[/td]`);
+      lines.push(`[tr]${cells.join("")}[/tr]`);
+    }
+    lines.push("[/table]");
+  }
+
+  return lines.join("\n");
+}
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; mimeType: string; serialize: (data: ExportData) => string }
+> = {
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv", serialize: toCsv },
+  json: { label: "JSON", extension: "json", mimeType: "application/json", serialize: toJson },
+  markdown: { label: "Markdown", extension: "md", mimeType: "text/markdown", serialize: toMarkdown },
+  bbcode: { label: "BBCode", extension: "txt", mimeType: "text/plain", serialize: toBBCode },
+};
+
+/**
+ * Save text as a file through a temporary object URL
+ */
+export function downloadTextFile(filename: string, text: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename.replace(INVALID_FILENAME_CHARS, "_");
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
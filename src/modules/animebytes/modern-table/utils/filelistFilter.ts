@@ -0,0 +1,53 @@
+/**
+ * Lowercase extension of a path, "" when there is none
+ */
+export function getFileExtension(path: string): string {
+  const basename = path.split("/").pop() ?? path;
+  const dot = basename.lastIndexOf(".");
+  return dot > 0 ? basename.slice(dot + 1).toLowerCase() : "";
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return "[^/]*";
+      if (char === "?") return "[^/]";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("")
+    // "**" crosses folders
+    .replace(/\[\^\/\]\*\[\^\/\]\*/g, ".*");
+  return new RegExp(`^${pattern}$`, "i");
+}
+
+/**
+ * Build a path predicate from the filter box. Queries with * or ? are globs, matched against the
+ * full path, or just the file name when the glob has no slash; anything else is a
+ * case-insensitive substring match on the full path.
+ */
+export function createPathMatcher(query: string): (path: string) => boolean {
+  const trimmed = query.trim();
+  if (!trimmed) return () => true;
+
+  if (/[*?]/.test(trimmed)) {
+    const regex = globToRegExp(trimmed);
+    const matchBasename = !trimmed.includes("/");
+    return (path) => regex.test(matchBasename ? (path.split("/").pop() ?? path) : path);
+  }
+
+  const needle = trimmed.toLowerCase();
+  return (path) => path.toLowerCase().includes(needle);
+}
+
+/**
+ * Extensions present in the filelist with their file counts, most common first
+ */
+export function countExtensions(paths: string[]): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  for (const path of paths) {
+    const extension = getFileExtension(path);
+    if (extension) counts.set(extension, (counts.get(extension) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
@@ -0,0 +1,117 @@
+import type {
+  FilterCategory,
+  FilterFlag,
+  GroupedTorrents,
+  ParsedTorrentRow,
+  TorrentFilters,
+} from "@/types/modern-table";
+import { parseSizeToBytes } from "./sorting";
+
+const BYTES_PER_GIB = 1024 ** 3;
+
+export const FILTER_CATEGORY_LABELS: Record<FilterCategory, string> = {
+  resolution: "Resolution",
+  videoCodec: "Codec",
+  container: "Container",
+  group: "Group",
+  subtitles: "Subtitles",
+  seadex: "SeaDex",
+};
+
+export const FILTER_FLAG_LABELS: Record<FilterFlag, string> = {
+  dualAudio: "Dual Audio",
+  freeleech: "Freeleech",
+};
+
+/**
+ * Distinct values present in a table, used to build the filter chips
+ */
+export interface FilterOptions {
+  values: Record<FilterCategory, Array<{ value: string; count: number }>>;
+  flags: Record<FilterFlag, number>;
+}
+
+export function isFreeleech(torrent: ParsedTorrentRow): boolean {
+  return !!torrent.isFreeleech || torrent.flags.some((flag) => flag.toLowerCase().includes("freeleech"));
+}
+
+export function isSeaDexBest(torrent: ParsedTorrentRow): boolean {
+  return (
+    !!torrent.isSeaDexBest ||
+    torrent.flags.some((flag) => flag.toLowerCase().includes("seadex") && flag.toLowerCase().includes("best"))
+  );
+}
+
+export function isSeaDexAlt(torrent: ParsedTorrentRow): boolean {
+  return (
+    !isSeaDexBest(torrent) &&
+    (!!torrent.isSeaDexAlt || torrent.flags.some((flag) => flag.toLowerCase().includes("seadex")))
+  );
+}
+
+const CATEGORY_VALUES: Record<FilterCategory, (torrent: ParsedTorrentRow) => string> = {
+  resolution: (torrent) => torrent.resolution,
+  videoCodec: (torrent) => torrent.videoCodec,
+  container: (torrent) => torrent.container,
+  group: (torrent) => torrent.group,
+  subtitles: (torrent) => torrent.subtitles,
+  seadex: (torrent) => (isSeaDexBest(torrent) ? "Best" : isSeaDexAlt(torrent) ? "Alt" : ""),
+};
+
+const FLAG_MATCHERS: Record<FilterFlag, (torrent: ParsedTorrentRow) => boolean> = {
+  dualAudio: (torrent) => torrent.hasDualAudio,
+  freeleech: isFreeleech,
+};
+
+/**
+ * Collect the filterable values present across all sections, most common first
+ */
+export function collectFilterOptions(groupedData: GroupedTorrents): FilterOptions {
+  const torrents = groupedData.sections.flatMap(({ torrents }) => torrents);
+
+  const values = {} as FilterOptions["values"];
+  for (const category of Object.keys(CATEGORY_VALUES) as FilterCategory[]) {
+    const counts = new Map<string, number>();
+    for (const torrent of torrents) {
+      const value = CATEGORY_VALUES[category](torrent);
+      if (value) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+    }
+    values[category] = Array.from(counts, ([value, count]) => ({ value, count })).sort(
+      (a, b) => b.count - a.count || a.value.localeCompare(b.value),
+    );
+  }
+
+  const flags = {} as FilterOptions["flags"];
+  for (const flag of Object.keys(FLAG_MATCHERS) as FilterFlag[]) {
+    flags[flag] = torrents.filter(FLAG_MATCHERS[flag]).length;
+  }
+
+  return { values, flags };
+}
+
+/**
+ * Check a torrent against the active filters.
+ * Filters for properties that no torrent in the table has are ignored, so page-wide
+ * filters don't blank out tables of another kind (e.g. a resolution filter on a music table).
+ */
+export function matchesFilters(torrent: ParsedTorrentRow, filters: TorrentFilters, options: FilterOptions): boolean {
+  for (const [category, selected] of Object.entries(filters.values) as [FilterCategory, string[]][]) {
+    if (selected.length === 0 || options.values[category].length === 0) continue;
+    if (!selected.includes(CATEGORY_VALUES[category](torrent))) return false;
+  }
+
+  for (const flag of filters.flags) {
+    if (options.flags[flag] === 0) continue;
+    if (!FLAG_MATCHERS[flag](torrent)) return false;
+  }
+
+  if (filters.minSize !== null || filters.maxSize !== null) {
+    const sizeGiB = parseSizeToBytes(torrent.size) / BYTES_PER_GIB;
+    if (filters.minSize !== null && sizeGiB < filters.minSize) return false;
+    if (filters.maxSize !== null && sizeGiB > filters.maxSize) return false;
+  }
+
+  return true;
+}
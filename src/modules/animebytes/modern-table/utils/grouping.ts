@@ -0,0 +1,129 @@
+import type { GroupedTorrents, GroupingMode, ParsedTorrentRow } from "@/types/modern-table";
+import { parseResolutionForSorting, parseSizeToBytes } from "./sorting";
+
+interface GroupingDefinition {
+  label: string;
+  /** Section a torrent belongs to */
+  getKey?: (torrent: ParsedTorrentRow) => string;
+  /** Order of the sections, by their keys */
+  compare?: (a: string, b: string, torrents: ParsedTorrentRow[]) => number;
+}
+
+export interface SectionStats {
+  count: number;
+  totalBytes: number;
+  bestSeeders: number;
+}
+
+const SOURCE_ORDER = ["BD", "Web", "TV", "DVD", "Other"];
+
+const SOURCES: Record<string, string> = {
+  "Blu-ray": "BD",
+  "UHD Blu-ray": "BD",
+  Web: "Web",
+  TV: "TV",
+  DVD: "DVD",
+  "HD DVD": "DVD",
+};
+
+// Torrents without a value go last in every mode
+const UNKNOWN = "Unknown";
+
+const compareByName = (a: string, b: string) =>
+  Number(a === UNKNOWN) - Number(b === UNKNOWN) || a.localeCompare(b, undefined, { sensitivity: "base" });
+
+const getResolutionHeight = (resolution: string, torrents: ParsedTorrentRow[]) =>
+  parseResolutionForSorting(resolution, torrents.find((torrent) => torrent.resolution === resolution)?.aspectRatio)
+    .height;
+
+export const GROUPING_MODES: Record<GroupingMode, GroupingDefinition> = {
+  original: { label: "Site sections" },
+  releaseGroup: {
+    label: "Release group",
+    getKey: (torrent) => torrent.group || UNKNOWN,
+    compare: compareByName,
+  },
+  resolution: {
+    label: "Resolution",
+    getKey: (torrent) => torrent.resolution || UNKNOWN,
+    // Highest resolution first
+    compare: (a, b, torrents) => getResolutionHeight(b, torrents) - getResolutionHeight(a, torrents),
+  },
+  source: {
+    label: "Source",
+    getKey: (torrent) => SOURCES[torrent.format] ?? "Other",
+    compare: (a, b) => SOURCE_ORDER.indexOf(a) - SOURCE_ORDER.indexOf(b),
+  },
+  codec: {
+    label: "Codec",
+    getKey: (torrent) => torrent.videoCodec || UNKNOWN,
+    compare: compareByName,
+  },
+  flat: { label: "No grouping" },
+};
+
+/**
+ * Rearrange the torrents into sections by the chosen property. Torrents keep their original
+ * order within each section, and section IDs are derived from the key so they stay stable.
+ */
+export function groupTorrents(groupedData: GroupedTorrents, mode: GroupingMode): GroupedTorrents {
+  if (mode === "original") return groupedData;
+
+  const torrents = groupedData.sections.flatMap((section) => section.torrents);
+  const { getKey, compare } = GROUPING_MODES[mode];
+  if (!getKey || !compare) {
+    return { sections: [{ section: null, torrents }] };
+  }
+
+  const byKey = new Map<string, ParsedTorrentRow[]>();
+  for (const torrent of torrents) {
+    const key = getKey(torrent);
+    byKey.set(key, [...(byKey.get(key) ?? []), torrent]);
+  }
+
+  return {
+    sections: [...byKey.keys()]
+      .sort((a, b) => compare(a, b, torrents))
+      .map((key) => ({
+        section: { type: "section", id: `grouping-${mode}-${key}`, title: key },
+        torrents: byKey.get(key) ?? [],
+      })),
+  };
+}
+
+export function summarizeSection(torrents: ParsedTorrentRow[]): SectionStats {
+  return {
+    count: torrents.length,
+    totalBytes: torrents.reduce((total, torrent) => total + parseSizeToBytes(torrent.size), 0),
+    bestSeeders: Math.max(
+      0,
+      ...torrents.map((torrent) => Number.parseInt(torrent.seeders.replace(/[^\d]/g, ""), 10) || 0),
+    ),
+  };
+}
+
+/**
+ * Torrents counted in a section's stats. Group headers on series pages hold no torrents themselves,
+ * so they count those of the sections that follow, up to the next group header.
+ */
+export function getSectionStatsTorrents(
+  sections: GroupedTorrents["sections"],
+  sectionIndex: number,
+): ParsedTorrentRow[] {
+  const { section, torrents } = sections[sectionIndex];
+  if (section?.type !== "group") return torrents;
+
+  const groupTorrents = [...torrents];
+  for (const next of sections.slice(sectionIndex + 1)) {
+    if (next.section?.type === "group") break;
+    groupTorrents.push(...next.torrents);
+  }
+  return groupTorrents;
+}
+
+export function formatTotalSize(bytes: number): string {
+  const units = ["B", "KiB", "MiB", "GiB", "TiB"];
+  const unitIndex = Math.min(units.length - 1, Math.floor(Math.log(Math.max(bytes, 1)) / Math.log(1024)));
+  const value = bytes / 1024 ** unitIndex;
+  return `${unitIndex === 0 ? value : value.toFixed(2)} ${units[unitIndex]}`;
+}
@@ -0,0 +1,101 @@
+import type { ParsedTorrentRow, TorrentHealth, TorrentHealthStatus } from "@/types/modern-table";
+import { parseSizeToBytes } from "./sorting";
+
+export const HEALTH_STATUSES: Record<TorrentHealthStatus, { label: string; rank: number }> = {
+  healthy: { label: "Healthy", rank: 3 },
+  low: { label: "Low seeds", rank: 2 },
+  dying: { label: "Dying", rank: 1 },
+  dead: { label: "Dead", rank: 0 },
+};
+
+export interface HealthThresholds {
+  lowSeeders: number;
+  dyingSeeders: number;
+  oldTorrentDays: number;
+  largeTorrentGiB: number;
+  reseedMinSnatches: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RELATIVE_UNITS_MS: Record<string, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30 * DAY_MS,
+  year: 365 * DAY_MS,
+};
+
+const parseCount = (value: string) => Number.parseInt(value.replace(/[^\d]/g, ""), 10);
+
+/**
+ * Age of an upload in days, from either a date ("Jan 05 2021, 12:34") or a relative time
+ * ("2 years, 3 months ago"). Null when the upload time is unknown.
+ */
+export function parseUploadAgeDays(uploadTime: string, now = Date.now()): number | null {
+  if (!uploadTime) return null;
+
+  const relative = [...uploadTime.matchAll(/(\d+)\s*(minute|hour|day|week|month|year)s?/gi)];
+  if (relative.length > 0 && /\bago\b/i.test(uploadTime)) {
+    const ms = relative.reduce(
+      (sum, [, count, unit]) => sum + Number(count) * RELATIVE_UNITS_MS[unit.toLowerCase()],
+      0,
+    );
+    return ms / DAY_MS;
+  }
+
+  const timestamp = Date.parse(uploadTime.replace(",", ""));
+  return Number.isNaN(timestamp) ? null : Math.max(0, (now - timestamp) / DAY_MS);
+}
+
+/**
+ * Rate the swarm of a torrent. Few seeders alone only means low seeds; it's dying when those few
+ * seeders are also likely to disappear (old upload, large download) or can't keep up with leechers.
+ * Returns undefined for rows without statistics.
+ */
+export function assessTorrentHealth(
+  torrent: ParsedTorrentRow,
+  thresholds: HealthThresholds,
+): TorrentHealth | undefined {
+  const seeders = parseCount(torrent.seeders);
+  if (Number.isNaN(seeders)) return undefined;
+
+  const leechers = parseCount(torrent.leechers) || 0;
+  const snatches = parseCount(torrent.snatches) || 0;
+  const ageDays = parseUploadAgeDays(torrent.uploadTime);
+  const sizeGiB = parseSizeToBytes(torrent.size) / 1024 ** 3;
+
+  const reasons = [`${seeders} seeders, ${leechers} leechers, ${snatches} snatches`];
+  let status: TorrentHealthStatus = "healthy";
+
+  if (seeders === 0) {
+    status = "dead";
+  } else if (seeders <= thresholds.dyingSeeders) {
+    const risks = [
+      ageDays !== null && ageDays >= thresholds.oldTorrentDays && `uploaded ${Math.round(ageDays)} days ago`,
+      sizeGiB >= thresholds.largeTorrentGiB && `${Math.round(sizeGiB)} GiB`,
+      leechers > seeders && "more leechers than seeders",
+    ].filter((risk): risk is string => Boolean(risk));
+
+    status = risks.length > 0 ? "dying" : "low";
+    reasons.push(...risks);
+  } else if (seeders < thresholds.lowSeeders) {
+    status = "low";
+  }
+
+  const canRequestReseed = (status === "dead" || status === "dying") && snatches >= thresholds.reseedMinSnatches;
+  if (canRequestReseed) {
+    reasons.push(`${snatches} snatches could reseed it`);
+  }
+
+  return { status, reasons, canRequestReseed };
+}
+
+export function getHealthRank(torrent: ParsedTorrentRow): number {
+  return torrent.health ? HEALTH_STATUSES[torrent.health.status].rank : -1;
+}
+
+export function getReseedRequestUrl(torrent: ParsedTorrentRow): string {
+  return `/torrents.php?action=reseed&torrentid=${torrent.torrentId}&groupid=${torrent.groupId}`;
+}
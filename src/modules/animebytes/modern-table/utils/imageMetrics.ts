@@ -0,0 +1,239 @@
+import { log } from "@/utils/logging";
+
+/** Frames are compared at this width at most; full resolution adds time but not insight */
+const MAX_COMPARE_WIDTH = 960;
+const SSIM_WINDOW = 8;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+/** Below this SSIM two screenshots are most likely of different frames rather than different encodes */
+const FRAME_MISMATCH_SSIM = 0.5;
+/** Differences are faint on good encodes, so they're amplified for the heatmap */
+const HEATMAP_GAIN = 4;
+/** Decoded screenshots and heatmaps take megabytes each, so only the most recently used are kept */
+const MAX_CACHED_BITMAPS = 8;
+const MAX_CACHED_METRICS = 16;
+
+export interface FrameMetrics {
+  /** Luma PSNR in dB, Infinity for identical frames */
+  psnr: number;
+  /** Mean SSIM over 8x8 windows of the luma plane, 1 for identical frames */
+  ssim: number;
+  sizes: [{ width: number; height: number }, { width: number; height: number }];
+  resolutionMismatch: boolean;
+  frameMismatch: boolean;
+  heatmap: ImageData;
+}
+
+const bitmapCache = new Map<string, Promise<ImageBitmap>>();
+const metricsCache = new Map<string, Promise<FrameMetrics>>();
+
+/**
+ * Read a cache entry and mark it as the most recently used
+ */
+function getRecent<T>(cache: Map<string, T>, key: string): T | undefined {
+  const value = cache.get(key);
+  if (value !== undefined) {
+    cache.delete(key);
+    cache.set(key, value);
+  }
+  return value;
+}
+
+/**
+ * Add a cache entry, evicting the least recently used ones beyond the limit
+ */
+function setRecent<T>(cache: Map<string, T>, key: string, value: T, limit: number, onEvict?: (value: T) => void) {
+  cache.delete(key);
+  cache.set(key, value);
+  for (const [oldKey, oldValue] of cache) {
+    if (cache.size <= limit) break;
+    cache.delete(oldKey);
+    onEvict?.(oldValue);
+  }
+}
+
+// Frees the decoded image right away rather than whenever it's garbage collected
+const closeBitmap = (bitmap: Promise<ImageBitmap>) => bitmap.then((b) => b.close()).catch(() => {});
+
+/**
+ * Fetch an image as a blob through the userscript manager, since screenshot hosts don't send
+ * CORS headers and a tainted canvas can't be read
+ */
+function fetchImageBitmap(url: string): Promise<ImageBitmap> {
+  const cached = getRecent(bitmapCache, url);
+  if (cached) return cached;
+
+  const promise = new Promise<ImageBitmap>((resolve, reject) => {
+    GM_xmlhttpRequest({
+      method: "GET",
+      url,
+      responseType: "blob",
+      onload: (response) => {
+        if (response.status !== 200 || !(response.response instanceof Blob)) {
+          reject(new Error(`Failed to fetch screenshot (status ${response.status})`));
+          return;
+        }
+        createImageBitmap(response.response).then(resolve, reject);
+      },
+      onerror: () => reject(new Error("Failed to fetch screenshot")),
+      ontimeout: () => reject(new Error("Timed out fetching screenshot")),
+    });
+  });
+
+  // Don't keep failures around, so a retry fetches again
+  promise.catch(() => bitmapCache.delete(url));
+  setRecent(bitmapCache, url, promise, MAX_CACHED_BITMAPS, closeBitmap);
+  return promise;
+}
+
+function getLuma(bitmap: ImageBitmap, width: number, height: number): Float32Array {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("Canvas 2D context unavailable");
+
+  context.drawImage(bitmap, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    // BT.709 luma, matching HD sources
+    luma[i] = 0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2];
+  }
+  return luma;
+}
+
+function computePsnr(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  const mse = sum / a.length;
+  return mse === 0 ? Number.POSITIVE_INFINITY : 10 * Math.log10((255 * 255) / mse);
+}
+
+function computeSsim(a: Float32Array, b: Float32Array, width: number, height: number): number {
+  let total = 0;
+  let windows = 0;
+
+  for (let y = 0; y + SSIM_WINDOW <= height; y += SSIM_WINDOW) {
+    for (let x = 0; x + SSIM_WINDOW <= width; x += SSIM_WINDOW) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+
+      for (let wy = 0; wy < SSIM_WINDOW; wy++) {
+        for (let wx = 0; wx < SSIM_WINDOW; wx++) {
+          const index = (y + wy) * width + x + wx;
+          sumA += a[index];
+          sumB += b[index];
+          sumAA += a[index] * a[index];
+          sumBB += b[index] * b[index];
+          sumAB += a[index] * b[index];
+        }
+      }
+
+      const n = SSIM_WINDOW * SSIM_WINDOW;
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const covariance = sumAB / n - meanA * meanB;
+
+      total +=
+        ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+      windows++;
+    }
+  }
+
+  return windows > 0 ? total / windows : 1;
+}
+
+// Black for identical pixels, through red to yellow for the largest differences
+function buildHeatmap(a: Float32Array, b: Float32Array, width: number, height: number): ImageData {
+  const heatmap = new ImageData(width, height);
+  for (let i = 0; i < a.length; i++) {
+    const intensity = Math.min(255, Math.abs(a[i] - b[i]) * HEATMAP_GAIN);
+    heatmap.data[i * 4] = Math.min(255, intensity * 2);
+    heatmap.data[i * 4 + 1] = Math.max(0, intensity * 2 - 255);
+    heatmap.data[i * 4 + 2] = 0;
+    heatmap.data[i * 4 + 3] = 255;
+  }
+  return heatmap;
+}
+
+async function measure(urlA: string, urlB: string): Promise<FrameMetrics> {
+  const [bitmapA, bitmapB] = await Promise.all([fetchImageBitmap(urlA), fetchImageBitmap(urlB)]);
+  const sizes: FrameMetrics["sizes"] = [
+    { width: bitmapA.width, height: bitmapA.height },
+    { width: bitmapB.width, height: bitmapB.height },
+  ];
+
+  // Compare on a common grid: the smaller frame, capped for speed
+  const scale = Math.min(1, MAX_COMPARE_WIDTH / Math.min(bitmapA.width, bitmapB.width));
+  const width = Math.max(1, Math.round(Math.min(bitmapA.width, bitmapB.width) * scale));
+  const height = Math.max(1, Math.round(Math.min(bitmapA.height, bitmapB.height) * scale));
+
+  const lumaA = getLuma(bitmapA, width, height);
+  const lumaB = getLuma(bitmapB, width, height);
+  const ssim = computeSsim(lumaA, lumaB, width, height);
+
+  const metrics: FrameMetrics = {
+    psnr: computePsnr(lumaA, lumaB),
+    ssim,
+    sizes,
+    resolutionMismatch: sizes[0].width !== sizes[1].width || sizes[0].height !== sizes[1].height,
+    frameMismatch: ssim < FRAME_MISMATCH_SSIM,
+    heatmap: buildHeatmap(lumaA, lumaB, width, height),
+  };
+
+  log("Measured screenshot pair", { urlA, urlB, psnr: metrics.psnr, ssim: metrics.ssim });
+  return metrics;
+}
+
+/**
+ * PSNR, SSIM and a difference heatmap for two screenshots of the same frame. Results are cached
+ * per pair, so flipping back and forth between frames doesn't recompute anything.
+ */
+export function measureFramePair(urlA: string, urlB: string): Promise<FrameMetrics> {
+  const key = `${urlA}|${urlB}`;
+  const cached = getRecent(metricsCache, key);
+  if (cached) return cached;
+
+  const promise = measure(urlA, urlB);
+  promise.catch(() => metricsCache.delete(key));
+  setRecent(metricsCache, key, promise, MAX_CACHED_METRICS);
+  return promise;
+}
+
+/**
+ * Drop every cached screenshot and measurement, e.g. once the comparison viewer is closed
+ */
+export function clearFrameMetricsCache() {
+  for (const bitmap of bitmapCache.values()) {
+    closeBitmap(bitmap);
+  }
+  bitmapCache.clear();
+  metricsCache.clear();
+}
+
+export function formatPsnr(psnr: number): string {
+  return Number.isFinite(psnr) ? `${psnr.toFixed(2)} dB` : "∞ (identical)";
+}
+
+/**
+ * Rough reading of the numbers for people who don't compare encodes for a living. The cutoffs are
+ * loose: screenshots are already lossy, so even a transparent encode rarely measures as identical.
+ */
+export function describeSimilarity(metrics: FrameMetrics): string {
+  if (metrics.frameMismatch) return "Different frames";
+  if (!Number.isFinite(metrics.psnr)) return "Identical";
+  if (metrics.psnr >= 45 && metrics.ssim >= 0.99) return "Near identical";
+  if (metrics.psnr >= 38 && metrics.ssim >= 0.95) return "Minor differences";
+  if (metrics.psnr >= 30) return "Noticeable differences (filtering or banding)";
+  return "Large differences";
+}
@@ -0,0 +1,271 @@
+import { parseMediaInfo } from "mi-parser";
+import type { MediaInfo } from "@/types/modern-table";
+
+type TrackProperties = Record<string, unknown>;
+
+export interface MediaInfoChapter {
+  time: string;
+  title: string;
+}
+
+export interface MediaInfoTrack {
+  index: number;
+  /** The mi-parser track, keyed by camel-cased MediaInfo labels ("formatProfile", "hdrFormat", ...) */
+  properties: TrackProperties;
+  badges: MediaInfoBadge[];
+}
+
+export interface MediaInfoBadge {
+  label: string;
+  variant: "info" | "highlight" | "warning";
+  title?: string;
+}
+
+export interface StructuredMediaInfo {
+  general: MediaInfoTrack | null;
+  video: MediaInfoTrack[];
+  audio: MediaInfoTrack[];
+  text: MediaInfoTrack[];
+  chapters: MediaInfoChapter[];
+}
+
+const CHAPTER_LINE = /^(\d{2}:\d{2}:\d{2}[.:]\d{3})\s+:\s*(.*)$/;
+
+// mi-parser normalizes some properties into numbers and flags into booleans
+function formatValue(value: unknown): string {
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : "";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return "";
+}
+
+const field = (track: MediaInfoTrack, key: string) => formatValue(track.properties[key]);
+
+/**
+ * First match among alternative properties, e.g. "bitRate" vs "nominalBitRate"
+ */
+export function getTrackField(track: MediaInfoTrack | undefined, ...keys: string[]): string {
+  if (!track) return "";
+  for (const key of keys) {
+    const value = field(track, key);
+    if (value) return value;
+  }
+  return "";
+}
+
+function createTrack(properties: object, index: number): MediaInfoTrack {
+  return { index, properties: properties as TrackProperties, badges: [] };
+}
+
+export function getBitDepth(track: MediaInfoTrack): number {
+  return Number.parseInt(field(track, "bitDepth"), 10) || 0;
+}
+
+/**
+ * HDR formats of a video track, most capable first. Dolby Vision profile 8 releases
+ * carry an HDR10 base layer, so both can be present.
+ */
+export function getHdrFormats(track: MediaInfoTrack): string[] {
+  const hdrFormat = field(track, "hdrFormat");
+  const transfer = field(track, "transferCharacteristics");
+  const formats: string[] = [];
+
+  if (/dolby vision/i.test(hdrFormat)) {
+    formats.push("Dolby Vision");
+  }
+  if (/hdr10\+|smpte st 2094/i.test(hdrFormat)) {
+    formats.push("HDR10+");
+  } else if (/hdr10|smpte st 2086/i.test(hdrFormat) || /PQ/.test(transfer)) {
+    formats.push("HDR10");
+  }
+  if (/HLG/.test(transfer)) {
+    formats.push("HLG");
+  }
+
+  return formats;
+}
+
+function getVideoBadges(track: MediaInfoTrack): MediaInfoBadge[] {
+  const badges: MediaInfoBadge[] = [];
+  const bitDepth = getBitDepth(track);
+  if (bitDepth >= 10) {
+    badges.push({ label: `${bitDepth}-bit`, variant: "highlight" });
+  }
+
+  const hdrFormat = field(track, "hdrFormat") || field(track, "transferCharacteristics");
+  for (const format of getHdrFormats(track)) {
+    badges.push({ label: format, variant: "highlight", title: hdrFormat });
+  }
+
+  if (/variable/i.test(field(track, "frameRateMode"))) {
+    badges.push({ label: "VFR", variant: "info", title: "Variable frame rate" });
+  }
+
+  return badges;
+}
+
+function getFlagBadges(track: MediaInfoTrack): MediaInfoBadge[] {
+  const badges: MediaInfoBadge[] = [];
+  if (field(track, "default") === "Yes") {
+    badges.push({ label: "Default", variant: "info" });
+  }
+  if (field(track, "forced") === "Yes") {
+    badges.push({ label: "Forced", variant: "info" });
+  }
+
+  const language = field(track, "language");
+  if (!language || /^(undefined|und)$/i.test(language)) {
+    badges.push({ label: "No language", variant: "warning", title: "The track has no language tag" });
+  }
+
+  return badges;
+}
+
+/**
+ * Chapter marks of the Menu section, e.g. "00:01:30.000 : en:Opening". They're keyed by timestamp
+ * rather than being track properties, so they're read from the text.
+ */
+function parseChapters(text: string): MediaInfoChapter[] {
+  const menuStart = text.search(/^Menu(\s*#\d+)?\s*$/m);
+  if (menuStart === -1) return [];
+
+  return text
+    .slice(menuStart)
+    .split(/\r?\n/)
+    .flatMap((line) => {
+      const match = line.trim().match(CHAPTER_LINE);
+      // Chapter names are prefixed with their language, e.g. "en:Opening"
+      return match ? [{ time: match[1], title: match[2].replace(/^[a-z]{2,3}:/, "") }] : [];
+    });
+}
+
+/**
+ * Group the mi-parser tracks for display and badge notable properties. Takes the parser's output
+ * when the caller already has it, so the text isn't parsed twice.
+ */
+export function buildStructuredMediaInfo(
+  text: string,
+  parsed: ReturnType<typeof parseMediaInfo> = parseMediaInfo(text),
+): StructuredMediaInfo {
+  const createTracks = (tracks: object[] | undefined) =>
+    (tracks ?? []).map((properties, index) => createTrack(properties, index + 1));
+
+  const video = createTracks(parsed?.video);
+  for (const track of video) {
+    track.badges = [...getVideoBadges(track), ...getFlagBadges(track).filter(({ label }) => label !== "No language")];
+  }
+
+  const audio = createTracks(parsed?.audio);
+  const subtitles = createTracks(parsed?.text);
+  for (const track of [...audio, ...subtitles]) {
+    track.badges = getFlagBadges(track);
+    if (/lossless/i.test(field(track, "compressionMode"))) {
+      track.badges.unshift({ label: "Lossless", variant: "highlight" });
+    }
+  }
+
+  return {
+    general: parsed?.general ? createTrack(parsed.general, 0) : null,
+    video,
+    audio,
+    text: subtitles,
+    chapters: parseChapters(text),
+  };
+}
+
+/**
+ * Drop MediaInfo's thousands spacing and redundant units, e.g. "1 920 pixels" -> "1920"
+ */
+export function formatPixels(value: string): string {
+  return value.replace(/\s*pixels?$/, "").replace(/(\d)\s(?=\d)/g, "$1");
+}
+
+/**
+ * 23.976 or "23.976 (24000/1001) FPS" -> "23.976 fps"
+ */
+export function formatFrameRate(value: unknown): string {
+  if (typeof value === "number" && value > 0) {
+    return `${Number(value.toFixed(3))} fps`;
+  }
+  return typeof value === "string" ? value.replace(/\s*\(.*?\)/, "").replace(/\s*FPS$/i, " fps") : "";
+}
+
+/**
+ * Bits per second, as mi-parser reports them, in kb/s
+ */
+export function formatBitrate(value: unknown): string {
+  if (typeof value === "number" && value > 0) {
+    return `${Math.round(value / 1000).toLocaleString()} kb/s`;
+  }
+  return value ? String(value) : "";
+}
+
+const SUBTITLE_FORMATS: Array<[RegExp, string]> = [
+  [/^(ass|ssa)$/i, "ASS"],
+  [/^pgs$/i, "PGS"],
+  [/^(utf-8|srt|subrip)$/i, "SRT"],
+  [/^vobsub$/i, "VobSub"],
+  [/^webvtt$/i, "WebVTT"],
+];
+
+/**
+ * Map MediaInfo's text formats to the names releases use, e.g. "UTF-8" -> "SRT"
+ */
+export function normalizeSubtitleFormat(format: string): string {
+  return SUBTITLE_FORMATS.find(([pattern]) => pattern.test(format.trim()))?.[1] ?? format.trim();
+}
+
+/**
+ * Distinct subtitle formats of a release, in track order
+ */
+export function getSubtitleFormats(mediaInfo: MediaInfo | undefined): string[] {
+  return [...new Set((mediaInfo?.subtitles ?? []).map(({ format }) => format).filter(Boolean))];
+}
+
+/**
+ * Short rate control summary of x264/x265 encoding settings, e.g. "CRF 16" or "2-pass 4000 kb/s"
+ */
+export function summarizeEncoderSettings(settings: string): string {
+  if (!settings) return "";
+
+  const options = new Map(
+    settings.split("/").map((option) => {
+      const [key, ...value] = option.trim().split("=");
+      return [key, value.join("=")] as const;
+    }),
+  );
+  const rateControl = options.get("rc") ?? "";
+  const crf = options.get("crf");
+  const bitrate = options.get("bitrate");
+
+  if (crf && (rateControl === "crf" || !rateControl)) {
+    return `CRF ${Number.parseFloat(crf)}`;
+  }
+  if (bitrate && /2pass|abr/.test(rateControl)) {
+    return `${rateControl === "2pass" ? "2-pass" : "ABR"} ${bitrate} kb/s`;
+  }
+  return rateControl.toUpperCase();
+}
+
+const UNDEFINED_LANGUAGE = /^(|undefined|und)$/i;
+
+/**
+ * Work out which audio tracks are dubs. The original language is Japanese when any track
+ * has it (the common case on this site), otherwise the first tagged track's language.
+ * Tracks in other languages, or titled as a dub, are dubs.
+ */
+export function detectDubTracks(tracks: Array<{ language: string; title: string }>): {
+  languages: string[];
+  isDub: boolean[];
+} {
+  const tagged = tracks.map(({ language }) => language.trim()).filter((language) => !UNDEFINED_LANGUAGE.test(language));
+  const original = tagged.find((language) => /^(japanese|ja|jpn)$/i.test(language)) ?? tagged[0] ?? "";
+  const languages = [...new Set([original, ...tagged].filter(Boolean))];
+
+  const isDub = tracks.map(({ language, title }) => {
+    if (/\bdub(bed)?\b/i.test(title)) return true;
+    return !UNDEFINED_LANGUAGE.test(language.trim()) && language.trim() !== original;
+  });
+
+  return { languages, isDub };
+}
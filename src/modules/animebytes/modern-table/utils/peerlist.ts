@@ -0,0 +1,78 @@
+import type { PeerlistItem } from "@/types/modern-table";
+import { parseSizeToBytes } from "./sorting";
+
+export type PeerSortColumn = "username" | "downloaded" | "uploaded" | "percentage";
+
+/** Completion histogram buckets: 0-9%, 10-19% ... 90-99%, and complete */
+export const COMPLETION_BUCKETS = [...Array.from({ length: 10 }, (_, index) => `${index * 10}%`), "100%"];
+
+export interface StalledGroup {
+  percentage: number;
+  count: number;
+}
+
+export interface PeerlistSummary {
+  seeders: number;
+  partial: number;
+  /** Mean completion of all peers, 0-100 */
+  averageCompletion: number;
+  /** Highest completion among partial peers, the most a swarm without seeders can offer */
+  bestPartial: number | null;
+  /** Partial peers that have started downloading and share the exact same completion, largest group first */
+  stalledGroups: StalledGroup[];
+  stalledCount: number;
+  /** Peer count per entry of COMPLETION_BUCKETS */
+  distribution: number[];
+}
+
+export function parsePercentage(percentage: string): number {
+  const value = Number.parseFloat(percentage.replace(/[^\d.]/g, ""));
+  return Number.isNaN(value) ? 0 : Math.min(100, value);
+}
+
+const peerComparators: Record<PeerSortColumn, (a: PeerlistItem, b: PeerlistItem) => number> = {
+  username: (a, b) => a.username.localeCompare(b.username),
+  downloaded: (a, b) => parseSizeToBytes(a.downloaded) - parseSizeToBytes(b.downloaded),
+  uploaded: (a, b) => parseSizeToBytes(a.uploaded) - parseSizeToBytes(b.uploaded),
+  percentage: (a, b) => parsePercentage(a.percentage) - parsePercentage(b.percentage),
+};
+
+export function sortPeers(peerlist: PeerlistItem[], column: PeerSortColumn, direction: "asc" | "desc"): PeerlistItem[] {
+  const compare = peerComparators[column];
+  return [...peerlist].sort((a, b) => (direction === "asc" ? compare(a, b) : compare(b, a)));
+}
+
+/**
+ * Aggregate a peer list. Several partial peers stuck at the same percentage usually means they are
+ * all waiting on pieces nobody in the swarm has.
+ */
+export function summarizePeerlist(peerlist: PeerlistItem[]): PeerlistSummary {
+  const completions = peerlist.map((peer) => parsePercentage(peer.percentage));
+  const partials = completions.filter((completion) => completion < 100);
+
+  // Peers at 0% have only just joined, or are waiting for any seeder at all, rather than stuck on missing pieces
+  const partialCounts = new Map<number, number>();
+  for (const completion of partials.filter((completion) => completion > 0)) {
+    partialCounts.set(completion, (partialCounts.get(completion) ?? 0) + 1);
+  }
+  const stalledGroups = [...partialCounts.entries()]
+    .filter(([, count]) => count > 1)
+    .map(([percentage, count]) => ({ percentage, count }))
+    .sort((a, b) => b.count - a.count || b.percentage - a.percentage);
+
+  const distribution = COMPLETION_BUCKETS.map(() => 0);
+  for (const completion of completions) {
+    distribution[completion >= 100 ? 10 : Math.floor(completion / 10)]++;
+  }
+
+  return {
+    seeders: completions.length - partials.length,
+    partial: partials.length,
+    averageCompletion:
+      completions.length > 0 ? completions.reduce((sum, completion) => sum + completion, 0) / completions.length : 0,
+    bestPartial: partials.length > 0 ? Math.max(...partials) : null,
+    stalledGroups,
+    stalledCount: stalledGroups.reduce((sum, group) => sum + group.count, 0),
+    distribution,
+  };
+}
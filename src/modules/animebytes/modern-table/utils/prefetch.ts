@@ -0,0 +1,96 @@
+import { getCachedValue } from "@/utils/cache";
+import { log } from "@/utils/logging";
+import { checkRateLimit, type RateLimitConfig, recordRequest } from "@/utils/rateLimit";
+import { fetchPeerlistData, fetchScreenshotsData, peerlistCacheKey, screenshotsCacheKey } from "../details-extraction";
+
+const MAX_CONCURRENT_PREFETCHES = 2;
+
+// Prefetches are speculative, so they get a smaller budget than the site would tolerate
+const PREFETCH_RATE_LIMIT_KEY = "animebytes-prefetch";
+const PREFETCH_RATE_LIMITS: RateLimitConfig = {
+  perSecond: 2,
+  perMinute: 30,
+  perHour: 300,
+  perDay: 1500,
+};
+
+interface PrefetchTask {
+  torrentId: string;
+  groupId: string;
+}
+
+const queue: PrefetchTask[] = [];
+const queuedIds = new Set<string>();
+let activeCount = 0;
+
+/**
+ * Whether the data is in the cache afterwards: false when rate limited or the fetch failed
+ */
+async function prefetchIfMissing<T>(cacheKey: string, fetchData: () => Promise<T | null>): Promise<boolean> {
+  if ((await getCachedValue(cacheKey)) !== null) return true;
+
+  const { allowed, retryAfter } = checkRateLimit(PREFETCH_RATE_LIMIT_KEY, PREFETCH_RATE_LIMITS);
+  if (!allowed) {
+    log(`Skipping prefetch of ${cacheKey}, retry in ${retryAfter}s`);
+    return false;
+  }
+
+  recordRequest(PREFETCH_RATE_LIMIT_KEY);
+  return (await fetchData()) !== null;
+}
+
+async function runTask({ torrentId, groupId }: PrefetchTask) {
+  const fetchedScreenshots = await prefetchIfMissing(screenshotsCacheKey(torrentId), () =>
+    fetchScreenshotsData(torrentId, groupId),
+  );
+  const fetchedPeerlist = await prefetchIfMissing(peerlistCacheKey(torrentId), () =>
+    fetchPeerlistData(torrentId, groupId),
+  );
+
+  // Leave rate-limited and failed torrents unmarked so a later hover can try again
+  if (!fetchedScreenshots || !fetchedPeerlist) {
+    queuedIds.delete(torrentId);
+  }
+}
+
+function drainQueue() {
+  while (activeCount < MAX_CONCURRENT_PREFETCHES && queue.length > 0) {
+    const task = queue.shift();
+    if (!task) break;
+
+    activeCount++;
+    runTask(task)
+      .catch(() => queuedIds.delete(task.torrentId))
+      .finally(() => {
+        activeCount--;
+        drainQueue();
+      });
+  }
+}
+
+/**
+ * Queue the screenshots and peer list of a torrent for fetching into the cache. Hovered torrents
+ * jump the queue, since they're the ones most likely to be expanded next. Each torrent is only
+ * prefetched once per page view; the cache TTLs decide when the data is fetched again.
+ */
+export function prefetchTorrentDetails(torrentId: string, groupId: string, urgent = false) {
+  if (!torrentId || !groupId) return;
+
+  if (queuedIds.has(torrentId)) {
+    // Still waiting behind idle prefetches, so move it up
+    const index = queue.findIndex((task) => task.torrentId === torrentId);
+    if (urgent && index > 0) {
+      queue.unshift(...queue.splice(index, 1));
+    }
+    return;
+  }
+
+  queuedIds.add(torrentId);
+  const task = { torrentId, groupId };
+  if (urgent) {
+    queue.unshift(task);
+  } else {
+    queue.push(task);
+  }
+  drainQueue();
+}
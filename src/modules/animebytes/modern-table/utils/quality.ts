@@ -0,0 +1,223 @@
+import type {
+  ParsedTorrentRow,
+  QualityProfile,
+  QualityRule,
+  QualityRuleField,
+  QualityRuleOperator,
+} from "@/types/modern-table";
+import { isFreeleech, isSeaDexAlt, isSeaDexBest } from "./filtering";
+import { parseSizeToBytes } from "./sorting";
+
+type FieldKind = "text" | "number" | "boolean";
+
+interface FieldDefinition {
+  label: string;
+  kind: FieldKind;
+  getValue: (torrent: ParsedTorrentRow) => string | number | boolean;
+}
+
+const joinValues = (values: Array<string | undefined> | undefined) =>
+  (values || []).filter((value) => value && value !== "Undefined").join(", ");
+
+const parseCount = (value: string) => parseInt(value.replace(/[^\d]/g, ""), 10) || 0;
+
+/**
+ * Every field a rule can match on, with the kind of comparison it supports
+ */
+export const QUALITY_RULE_FIELDS: Record<QualityRuleField, FieldDefinition> = {
+  name: { label: "Name", kind: "text", getValue: (torrent) => torrent.name },
+  group: { label: "Release group", kind: "text", getValue: (torrent) => torrent.group },
+  format: { label: "Source", kind: "text", getValue: (torrent) => torrent.format },
+  container: { label: "Container", kind: "text", getValue: (torrent) => torrent.container },
+  videoCodec: { label: "Video codec", kind: "text", getValue: (torrent) => torrent.videoCodec },
+  resolution: { label: "Resolution", kind: "text", getValue: (torrent) => torrent.resolution },
+  audio: { label: "Audio codec", kind: "text", getValue: (torrent) => torrent.audio },
+  audioChannels: { label: "Audio channels", kind: "text", getValue: (torrent) => torrent.audioChannels },
+  subtitles: { label: "Subtitles", kind: "text", getValue: (torrent) => torrent.subtitles },
+  region: { label: "Region", kind: "text", getValue: (torrent) => torrent.region },
+  flags: { label: "Flags", kind: "text", getValue: (torrent) => torrent.flags.join(", ") },
+  size: { label: "Size (GiB)", kind: "number", getValue: (torrent) => parseSizeToBytes(torrent.size) / 1024 ** 3 },
+  seeders: { label: "Seeders", kind: "number", getValue: (torrent) => parseCount(torrent.seeders) },
+  snatches: { label: "Snatches", kind: "number", getValue: (torrent) => parseCount(torrent.snatches) },
+  dualAudio: { label: "Dual audio", kind: "boolean", getValue: (torrent) => torrent.hasDualAudio },
+  freeleech: { label: "Freeleech", kind: "boolean", getValue: isFreeleech },
+  seadexBest: { label: "SeaDex best", kind: "boolean", getValue: isSeaDexBest },
+  seadexAlt: { label: "SeaDex alt", kind: "boolean", getValue: isSeaDexAlt },
+  audioLanguages: {
+    label: "MediaInfo audio languages",
+    kind: "text",
+    getValue: (torrent) => joinValues(torrent.mediaInfo?.audio?.map((track) => track.language)),
+  },
+  audioCodecs: {
+    label: "MediaInfo audio codecs",
+    kind: "text",
+    getValue: (torrent) => joinValues(torrent.mediaInfo?.audio?.map((track) => track.codec)),
+  },
+  subtitleLanguages: {
+    label: "MediaInfo subtitle languages",
+    kind: "text",
+    getValue: (torrent) => joinValues(torrent.mediaInfo?.subtitles?.map((track) => track.language)),
+  },
+  subtitleFormats: {
+    label: "MediaInfo subtitle formats",
+    kind: "text",
+    getValue: (torrent) => joinValues(torrent.mediaInfo?.subtitles?.map((track) => track.type)),
+  },
+};
+
+export const QUALITY_RULE_OPERATORS: Record<QualityRuleOperator, { label: string; kind: FieldKind }> = {
+  contains: { label: "contains", kind: "text" },
+  notContains: { label: "does not contain", kind: "text" },
+  equals: { label: "equals", kind: "text" },
+  regex: { label: "matches regex", kind: "text" },
+  greaterThan: { label: "greater than", kind: "number" },
+  lessThan: { label: "less than", kind: "number" },
+  isTrue: { label: "is yes", kind: "boolean" },
+  isFalse: { label: "is no", kind: "boolean" },
+};
+
+/**
+ * Operators that make sense for a field
+ */
+export function getOperatorsForField(field: QualityRuleField): QualityRuleOperator[] {
+  const { kind } = QUALITY_RULE_FIELDS[field];
+  return (Object.keys(QUALITY_RULE_OPERATORS) as QualityRuleOperator[]).filter(
+    (operator) => QUALITY_RULE_OPERATORS[operator].kind === kind,
+  );
+}
+
+// Compiled regexes keyed by pattern; invalid patterns are cached as null
+const regexCache = new Map<string, RegExp | null>();
+
+export function compileRuleRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, "i"));
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern) ?? null;
+}
+
+/**
+ * Check whether a single rule matches a torrent. Invalid rules never match.
+ */
+export function matchesRule(torrent: ParsedTorrentRow, rule: QualityRule): boolean {
+  const definition = QUALITY_RULE_FIELDS[rule.field];
+  if (!definition) return false;
+
+  const value = definition.getValue(torrent);
+  const text = String(value).toLowerCase();
+  const expected = rule.value.toLowerCase();
+
+  switch (rule.operator) {
+    case "contains":
+      return expected !== "" && text.includes(expected);
+    case "notContains":
+      return expected === "" || !text.includes(expected);
+    case "equals":
+      return text === expected;
+    case "regex":
+      return compileRuleRegex(rule.value)?.test(String(value)) ?? false;
+    case "greaterThan":
+      return Number(value) > parseFloat(rule.value);
+    case "lessThan":
+      return Number(value) < parseFloat(rule.value);
+    case "isTrue":
+      return value === true;
+    case "isFalse":
+      return value === false;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Score a torrent against a profile, returning the total and the names of the matching rules
+ */
+export function scoreTorrent(torrent: ParsedTorrentRow, profile: QualityProfile): { score: number; matches: string[] } {
+  let score = 0;
+  const matches: string[] = [];
+
+  for (const rule of profile.rules) {
+    if (rule.enabled && matchesRule(torrent, rule)) {
+      score += rule.score;
+      matches.push(`${rule.name} (${rule.score > 0 ? "+" : ""}${rule.score})`);
+    }
+  }
+
+  return { score, matches };
+}
+
+/**
+ * Find the active profile, falling back to the first one
+ */
+export function getActiveQualityProfile(profiles: QualityProfile[], activeId: string): QualityProfile | undefined {
+  return profiles.find((profile) => profile.id === activeId) ?? profiles[0];
+}
+
+export function createQualityId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function createQualityRule(): QualityRule {
+  return {
+    id: createQualityId("rule"),
+    name: "New rule",
+    field: "group",
+    operator: "contains",
+    value: "",
+    score: 10,
+    enabled: true,
+  };
+}
+
+/**
+ * Serialize a profile into the JSON blob used for sharing
+ */
+export function serializeQualityProfile(profile: QualityProfile): string {
+  return JSON.stringify(profile, null, 2);
+}
+
+/**
+ * Parse and validate a shared profile. Invalid rules are dropped and a fresh id is assigned.
+ * Throws if the blob isn't valid JSON or isn't a profile.
+ */
+export function parseQualityProfile(json: string): QualityProfile {
+  const data: unknown = JSON.parse(json);
+
+  if (!data || typeof data !== "object" || !Array.isArray((data as QualityProfile).rules)) {
+    throw new Error("Profile must be a JSON object with a rules array");
+  }
+
+  const { name, rules } = data as QualityProfile;
+  const validRules = rules
+    .filter(
+      (rule) =>
+        rule &&
+        typeof rule === "object" &&
+        rule.field in QUALITY_RULE_FIELDS &&
+        rule.operator in QUALITY_RULE_OPERATORS &&
+        Number.isFinite(rule.score),
+    )
+    .map((rule) => ({
+      id: createQualityId("rule"),
+      name: String(rule.name || "Imported rule"),
+      field: rule.field,
+      operator: rule.operator,
+      value: String(rule.value ?? ""),
+      score: rule.score,
+      enabled: rule.enabled !== false,
+    }));
+
+  if (validRules.length === 0) {
+    throw new Error("No valid rules found in profile");
+  }
+
+  return {
+    id: createQualityId("profile"),
+    name: typeof name === "string" && name ? name : "Imported profile",
+    rules: validRules,
+  };
+}
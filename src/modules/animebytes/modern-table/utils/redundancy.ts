@@ -0,0 +1,110 @@
+import type { ParsedTorrentRow, ReleaseRedundancy } from "@/types/modern-table";
+import { formatEpisodeRanges, getEpisodeVersions } from "./episodes";
+import { parseSizeToBytes } from "./sorting";
+
+// Re-uploads of the same files differ by a few bytes of padding or a renamed NFO at most
+const DUPLICATE_SIZE_TOLERANCE = 0.01;
+
+interface ReleaseInfo {
+  torrent: ParsedTorrentRow;
+  bytes: number;
+  fileCount: number;
+  episodes: Map<number, number>;
+}
+
+const parseCount = (value: string) => Number.parseInt(value.replace(/[^\d]/g, ""), 10) || 0;
+
+function getReleaseInfo(torrent: ParsedTorrentRow): ReleaseInfo {
+  const filelist = torrent.filelist ?? [];
+  return {
+    torrent,
+    bytes: parseSizeToBytes(torrent.size),
+    fileCount: filelist.length,
+    episodes: getEpisodeVersions(filelist),
+  };
+}
+
+/**
+ * Why `older` is superseded by `newer`, or null if it isn't: every episode of `older` is in `newer`
+ * at the same or a higher version, and `newer` either has a higher version of some of them or more episodes
+ */
+function getSupersededReason(older: ReleaseInfo, newer: ReleaseInfo): string | null {
+  if (older.episodes.size === 0 || older.torrent.resolution !== newer.torrent.resolution) return null;
+
+  const upgraded: number[] = [];
+  for (const [episode, version] of older.episodes) {
+    const newerVersion = newer.episodes.get(episode);
+    if (newerVersion === undefined || newerVersion < version) return null;
+    if (newerVersion > version) upgraded.push(episode);
+  }
+
+  const episodes = formatEpisodeRanges([...older.episodes.keys()].sort((a, b) => a - b));
+  if (upgraded.length > 0) {
+    return `Superseded: ${newer.torrent.group} released a newer version of episode${upgraded.length === 1 ? "" : "s"} ${formatEpisodeRanges(upgraded.sort((a, b) => a - b))} (${newer.torrent.size})`;
+  }
+  if (newer.episodes.size > older.episodes.size) {
+    return `Superseded: episode${older.episodes.size === 1 ? "" : "s"} ${episodes} ${older.episodes.size === 1 ? "is" : "are"} also in the ${newer.episodes.size}-episode ${newer.torrent.group} batch (${newer.torrent.size})`;
+  }
+  return null;
+}
+
+function isLikelyDuplicate(a: ReleaseInfo, b: ReleaseInfo): boolean {
+  if (a.fileCount === 0 || a.fileCount !== b.fileCount || a.torrent.resolution !== b.torrent.resolution) {
+    return false;
+  }
+  const largest = Math.max(a.bytes, b.bytes);
+  return largest > 0 && Math.abs(a.bytes - b.bytes) / largest <= DUPLICATE_SIZE_TOLERANCE;
+}
+
+/**
+ * Find torrents that another torrent in the table makes redundant. Only uploads of the same release
+ * group within the same group page are compared, using their filelists. Of two duplicates, the one
+ * with fewer seeders is marked, or the later upload when they're tied.
+ */
+export function detectRedundantReleases(torrents: ParsedTorrentRow[]): Map<string, ReleaseRedundancy> {
+  const redundancies = new Map<string, ReleaseRedundancy>();
+
+  const byRelease = new Map<string, ReleaseInfo[]>();
+  for (const torrent of torrents) {
+    if (!torrent.group || !torrent.filelist?.length) continue;
+    const key = `${torrent.groupId}:${torrent.group.toLowerCase()}`;
+    byRelease.set(key, [...(byRelease.get(key) ?? []), getReleaseInfo(torrent)]);
+  }
+
+  for (const releases of byRelease.values()) {
+    for (const older of releases) {
+      for (const newer of releases) {
+        if (older === newer || redundancies.has(older.torrent.torrentId)) continue;
+
+        const reason = getSupersededReason(older, newer);
+        if (reason) {
+          redundancies.set(older.torrent.torrentId, {
+            kind: "superseded",
+            reason,
+            preferredTorrentId: newer.torrent.torrentId,
+          });
+        }
+      }
+    }
+
+    for (const [index, a] of releases.entries()) {
+      for (const b of releases.slice(index + 1)) {
+        if (!isLikelyDuplicate(a, b)) continue;
+
+        const seedersDiff = parseCount(a.torrent.seeders) - parseCount(b.torrent.seeders);
+        const laterUpload = Number(a.torrent.torrentId) > Number(b.torrent.torrentId) ? a : b;
+        const [kept, duplicate] =
+          seedersDiff > 0 ? [a, b] : seedersDiff < 0 ? [b, a] : [laterUpload === a ? b : a, laterUpload];
+        if (redundancies.has(duplicate.torrent.torrentId)) continue;
+
+        redundancies.set(duplicate.torrent.torrentId, {
+          kind: "duplicate",
+          reason: `Likely duplicate of another ${kept.torrent.group} upload with ${kept.fileCount} file${kept.fileCount === 1 ? "" : "s"} (${kept.torrent.size}, ${parseCount(kept.torrent.seeders)} seeders)`,
+          preferredTorrentId: kept.torrent.torrentId,
+        });
+      }
+    }
+  }
+
+  return redundancies;
+}
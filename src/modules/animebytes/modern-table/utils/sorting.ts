@@ -1,90 +1,123 @@
-import type { ParsedTorrentRow, SortColumn, SortDirection } from "@/types/modern-table";
+import type { ParsedTorrentRow, SortColumn, SortKey } from "@/types/modern-table";
+import { getHealthRank } from "./health";
+import { getSubtitleFormats, summarizeEncoderSettings } from "./mediainfo";
+
+type TorrentComparator = (a: ParsedTorrentRow, b: ParsedTorrentRow) => number;
 
 /**
- * Sort torrents based on column and direction - comprehensive sorting logic from original
+ * Sort torrents by one or more sort keys - the first key is the primary sort,
+ * each following key only breaks ties left by the previous ones
  */
-export function sortTorrents(
-  torrents: ParsedTorrentRow[],
-  column: SortColumn,
-  direction: SortDirection,
-): ParsedTorrentRow[] {
-  if (!column) return torrents;
-
-  const sortFunctions: Record<NonNullable<SortColumn>, (a: ParsedTorrentRow, b: ParsedTorrentRow) => number> = {
-    // Common columns (group is anime-only but kept for compatibility)
-    group: (a, b) => compareStringsWithEmpties(a.group, b.group),
-    size: (a, b) => parseSizeToBytes(a.size) - parseSizeToBytes(b.size),
-    snatches: (a, b) => parseNumeric(a.snatches) - parseNumeric(b.snatches),
-    seeders: (a, b) => parseNumeric(a.seeders) - parseNumeric(b.seeders),
-    leechers: (a, b) => parseNumeric(a.leechers) - parseNumeric(b.leechers),
-    flags: (a, b) => {
-      const aScore = calculateFlagScore(a.flags);
-      const bScore = calculateFlagScore(b.flags);
-
-      // Primary sort by total flag score
-      const scoreDiff = aScore - bScore;
-      if (scoreDiff !== 0) return scoreDiff;
-
-      // Secondary sort by flag count if scores are equal
-      return a.flags.length - b.flags.length;
-    },
-
-    // Anime-specific columns
-    format: (a, b) => compareStringsWithEmpties(a.format, b.format),
-    region: (a, b) => compareStringsWithEmpties(a.region, b.region),
-    container: (a, b) => compareStringsWithEmpties(a.container, b.container),
-    videoCodec: (a, b) => compareStringsWithEmpties(a.videoCodec, b.videoCodec),
-    resolution: (a, b) => {
-      const resA = parseResolutionForSorting(a.resolution, a.aspectRatio);
-      const resB = parseResolutionForSorting(b.resolution, b.aspectRatio);
-
-      // Sort by height first, then width
-      const heightDiff = resA.height - resB.height;
-      if (heightDiff !== 0) return heightDiff;
-
-      const widthDiff = resA.width - resB.width;
-      if (widthDiff !== 0) return widthDiff;
-
-      // Progressive comes after interlaced
-      return (resA.isInterlaced ? 0 : 1) - (resB.isInterlaced ? 0 : 1);
-    },
-    audio: (a, b) => compareStringsWithEmpties(a.audio, b.audio),
-    audioChannels: (a, b) => {
-      const channelsA = parseChannelsForSorting(a.audioChannels);
-      const channelsB = parseChannelsForSorting(b.audioChannels);
-      return channelsA - channelsB;
-    },
-    hasDualAudio: (a, b) => Number(b.hasDualAudio) - Number(a.hasDualAudio), // Dual audio first
-    subtitles: (a, b) => compareStringsWithEmpties(a.subtitles, b.subtitles),
-
-    // Printed Media columns
-    printedMediaType: (a, b) => compareStringsWithEmpties(a.printedMediaType || "", b.printedMediaType || ""),
-    translator: (a, b) => compareStringsWithEmpties(a.translator || "", b.translator || ""),
-    isDigital: (a, b) => Number(b.isDigital) - Number(a.isDigital), // Digital first
-    printedFormat: (a, b) => compareStringsWithEmpties(a.printedFormat || "", b.printedFormat || ""),
-    isOngoing: (a, b) => Number(b.isOngoing) - Number(a.isOngoing), // Ongoing first
-
-    // Games columns
-    gameType: (a, b) => compareStringsWithEmpties(a.gameType || "", b.gameType || ""),
-    platform: (a, b) => compareStringsWithEmpties(a.platform || "", b.platform || ""),
-    gameRegion: (a, b) => compareStringsWithEmpties(a.gameRegion || "", b.gameRegion || ""),
-    isArchived: (a, b) => Number(b.isArchived) - Number(a.isArchived), // Archived first
-
-    // Music columns
-    musicCodec: (a, b) => compareStringsWithEmpties(a.musicCodec || "", b.musicCodec || ""),
-    bitrate: (a, b) => compareStringsWithEmpties(a.bitrate || "", b.bitrate || ""),
-    media: (a, b) => compareStringsWithEmpties(a.media || "", b.media || ""),
-    hasLog: (a, b) => Number(b.hasLog) - Number(a.hasLog), // Log first
-    hasCue: (a, b) => Number(b.hasCue) - Number(a.hasCue), // Cue first
-  };
+export function sortTorrents(torrents: ParsedTorrentRow[], sortKeys: SortKey[]): ParsedTorrentRow[] {
+  if (sortKeys.length === 0) return torrents;
+
+  // Saved sort orders may reference columns that no longer exist
+  const validKeys = sortKeys.filter(({ column }) => column in sortFunctions);
+  const comparators = validKeys.map(({ column, direction }) => {
+    const sortFn = sortFunctions[column];
+    return direction === "desc" ? (a: ParsedTorrentRow, b: ParsedTorrentRow) => -sortFn(a, b) : sortFn;
+  });
 
-  const sortFn = sortFunctions[column];
   return torrents.sort((a, b) => {
-    const result = sortFn(a, b);
-    return direction === "desc" ? -result : result;
+    for (const compare of comparators) {
+      const result = compare(a, b);
+      if (result !== 0) return result;
+    }
+    return 0;
   });
 }
 
+/**
+ * Comparators for every sortable column - comprehensive sorting logic from original
+ */
+const sortFunctions: Record<NonNullable<SortColumn>, TorrentComparator> = {
+  // Common columns (group is anime-only but kept for compatibility)
+  group: (a, b) => compareStringsWithEmpties(a.group, b.group),
+  size: (a, b) => parseSizeToBytes(a.size) - parseSizeToBytes(b.size),
+  snatches: (a, b) => parseNumeric(a.snatches) - parseNumeric(b.snatches),
+  seeders: (a, b) => parseNumeric(a.seeders) - parseNumeric(b.seeders),
+  leechers: (a, b) => parseNumeric(a.leechers) - parseNumeric(b.leechers),
+  flags: (a, b) => {
+    const aScore = calculateFlagScore(a.flags);
+    const bScore = calculateFlagScore(b.flags);
+
+    // Primary sort by total flag score
+    const scoreDiff = aScore - bScore;
+    if (scoreDiff !== 0) return scoreDiff;
+
+    // Secondary sort by flag count if scores are equal
+    return a.flags.length - b.flags.length;
+  },
+  score: (a, b) => (a.qualityScore ?? 0) - (b.qualityScore ?? 0),
+  health: (a, b) => getHealthRank(a) - getHealthRank(b) || parseNumeric(a.seeders) - parseNumeric(b.seeders),
+
+  // Anime-specific columns
+  format: (a, b) => compareStringsWithEmpties(a.format, b.format),
+  region: (a, b) => compareStringsWithEmpties(a.region, b.region),
+  container: (a, b) => compareStringsWithEmpties(a.container, b.container),
+  videoCodec: (a, b) => compareStringsWithEmpties(a.videoCodec, b.videoCodec),
+  resolution: (a, b) => {
+    const resA = parseResolutionForSorting(a.resolution, a.aspectRatio);
+    const resB = parseResolutionForSorting(b.resolution, b.aspectRatio);
+
+    // Sort by height first, then width
+    const heightDiff = resA.height - resB.height;
+    if (heightDiff !== 0) return heightDiff;
+
+    const widthDiff = resA.width - resB.width;
+    if (widthDiff !== 0) return widthDiff;
+
+    // Progressive comes after interlaced
+    return (resA.isInterlaced ? 0 : 1) - (resB.isInterlaced ? 0 : 1);
+  },
+  audio: (a, b) => compareStringsWithEmpties(a.audio, b.audio),
+  audioChannels: (a, b) => {
+    const channelsA = parseChannelsForSorting(a.audioChannels);
+    const channelsB = parseChannelsForSorting(b.audioChannels);
+    return channelsA - channelsB;
+  },
+  hasDualAudio: (a, b) => Number(b.hasDualAudio) - Number(a.hasDualAudio), // Dual audio first
+  subtitles: (a, b) => compareStringsWithEmpties(a.subtitles, b.subtitles),
+
+  // MediaInfo columns
+  bitDepth: (a, b) => (a.mediaInfo?.video?.bitDepth ?? 0) - (b.mediaInfo?.video?.bitDepth ?? 0),
+  hdr: (a, b) => getHdrRank(a) - getHdrRank(b),
+  encoder: (a, b) => compareStringsWithEmpties(a.mediaInfo?.video?.encoder || "", b.mediaInfo?.video?.encoder || ""),
+  encoderSettings: (a, b) =>
+    compareStringsWithEmpties(
+      summarizeEncoderSettings(a.mediaInfo?.video?.encoderSettings || ""),
+      summarizeEncoderSettings(b.mediaInfo?.video?.encoderSettings || ""),
+    ),
+  audioLanguages: (a, b) => {
+    // Dubbed releases first, then by number of languages
+    const dubDiff = Number(hasDub(b)) - Number(hasDub(a));
+    if (dubDiff !== 0) return dubDiff;
+    return (b.mediaInfo?.audioLanguages?.length ?? 0) - (a.mediaInfo?.audioLanguages?.length ?? 0);
+  },
+  subtitleFormat: (a, b) =>
+    compareStringsWithEmpties(getSubtitleFormats(a.mediaInfo).join(", "), getSubtitleFormats(b.mediaInfo).join(", ")),
+
+  // Printed Media columns
+  printedMediaType: (a, b) => compareStringsWithEmpties(a.printedMediaType || "", b.printedMediaType || ""),
+  translator: (a, b) => compareStringsWithEmpties(a.translator || "", b.translator || ""),
+  isDigital: (a, b) => Number(b.isDigital) - Number(a.isDigital), // Digital first
+  printedFormat: (a, b) => compareStringsWithEmpties(a.printedFormat || "", b.printedFormat || ""),
+  isOngoing: (a, b) => Number(b.isOngoing) - Number(a.isOngoing), // Ongoing first
+
+  // Games columns
+  gameType: (a, b) => compareStringsWithEmpties(a.gameType || "", b.gameType || ""),
+  platform: (a, b) => compareStringsWithEmpties(a.platform || "", b.platform || ""),
+  gameRegion: (a, b) => compareStringsWithEmpties(a.gameRegion || "", b.gameRegion || ""),
+  isArchived: (a, b) => Number(b.isArchived) - Number(a.isArchived), // Archived first
+
+  // Music columns
+  musicCodec: (a, b) => compareStringsWithEmpties(a.musicCodec || "", b.musicCodec || ""),
+  bitrate: (a, b) => compareStringsWithEmpties(a.bitrate || "", b.bitrate || ""),
+  media: (a, b) => compareStringsWithEmpties(a.media || "", b.media || ""),
+  hasLog: (a, b) => Number(b.hasLog) - Number(a.hasLog), // Log first
+  hasCue: (a, b) => Number(b.hasCue) - Number(a.hasCue), // Cue first
+};
+
 // Helper functions for sorting
 
 function compareStringsWithEmpties(a: string, b: string): number {
@@ -99,7 +132,7 @@ function parseNumeric(value: string): number {
   return Number.isNaN(parsed) ? 0 : parsed;
 }
 
-function parseSizeToBytes(sizeStr: string): number {
+export function parseSizeToBytes(sizeStr: string): number {
   if (!sizeStr) return 0;
 
   const match = sizeStr.match(/^([0-9,.]+)\s*([KMGT]?i?B)$/i);
@@ -123,7 +156,7 @@ function parseSizeToBytes(sizeStr: string): number {
   return value * (multipliers[unit] || 1);
 }
 
-function parseResolutionForSorting(
+export function parseResolutionForSorting(
   resolutionStr: string,
   aspectRatio?: string,
 ): { width: number; height: number; isInterlaced: boolean } {
@@ -172,6 +205,19 @@ function parseResolutionForSorting(
   return result;
 }
 
+const HDR_RANKS = ["HLG", "HDR10", "HDR10+", "Dolby Vision"];
+
+// Unknown (no MediaInfo) < SDR < HLG < HDR10 < HDR10+ < Dolby Vision
+function getHdrRank(torrent: ParsedTorrentRow): number {
+  const video = torrent.mediaInfo?.video;
+  if (!video) return -1;
+  return Math.max(0, ...video.hdrFormat.split(", ").map((format) => HDR_RANKS.indexOf(format) + 1));
+}
+
+function hasDub(torrent: ParsedTorrentRow): boolean {
+  return torrent.mediaInfo?.audio?.some((track) => track.isDub) ?? false;
+}
+
 function parseChannelsForSorting(channelsStr: string): number {
   if (!channelsStr) return 0;
 
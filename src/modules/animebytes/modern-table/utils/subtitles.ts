@@ -0,0 +1,141 @@
+import type {
+  FilelistItem,
+  SubtitleAnalysis,
+  SubtitleKind,
+  SubtitleSource,
+  SubtitleTrackInfo,
+} from "@/types/modern-table";
+import { getTrackField, normalizeSubtitleFormat, type StructuredMediaInfo } from "./mediainfo";
+
+export const SUBTITLE_KINDS: Record<SubtitleKind, { label: string; shortLabel: string }> = {
+  full: { label: "Full subtitles", shortLabel: "Full" },
+  signs: { label: "Signs & songs", shortLabel: "S&S" },
+  honorifics: { label: "Honorifics", shortLabel: "Hon" },
+  sdh: { label: "SDH", shortLabel: "SDH" },
+};
+
+const SUBTITLE_EXTENSIONS = /\.(ass|ssa|srt|sup|vtt|idx)$/i;
+
+// Retail services and labels that show up in track titles
+const OFFICIAL_PATTERN =
+  /\b(official|retail|crunchyroll|funimation|netflix|amazon|amzn|hidive|disney\+?|aniplex|sentai|bilibili|b-global|viz media|dsnp)\b/i;
+// Short service tags are ordinary words too, so they only count bracketed ("[CR]") or as a WEB source tag ("NF WEB-DL")
+const OFFICIAL_TAG_PATTERN = /[[(](cr|nf|viz)[\])]|\b(cr|nf|viz)[ .-]web(-?dl|-?rip)?\b/i;
+const FANSUB_PATTERN = /\b(fansub|fan sub|fan-sub)\b|^\[[^\]]+\]/i;
+
+const LANGUAGE_CODES: Record<string, string> = {
+  en: "English",
+  eng: "English",
+  ja: "Japanese",
+  jpn: "Japanese",
+  es: "Spanish",
+  spa: "Spanish",
+  pt: "Portuguese",
+  por: "Portuguese",
+  fr: "French",
+  fre: "French",
+  fra: "French",
+  de: "German",
+  ger: "German",
+  deu: "German",
+  it: "Italian",
+  ita: "Italian",
+  ru: "Russian",
+  rus: "Russian",
+  ar: "Arabic",
+  ara: "Arabic",
+  zh: "Chinese",
+  chi: "Chinese",
+  zho: "Chinese",
+};
+
+/**
+ * Classify a track by its title. Honorifics tracks are still full translations, but
+ * that's the detail people pick releases by, so it wins over "full".
+ */
+export function classifySubtitleKind(title: string, isForced = false): SubtitleKind {
+  if (/\b(sdh|cc|hearing[- ]impaired)\b/i.test(title)) return "sdh";
+  if (/\b(signs?|songs?|s&s|forced)\b/i.test(title)) return "signs";
+  if (/honorifics?|\bhonors?\b/i.test(title)) return "honorifics";
+  return isForced && !title ? "signs" : "full";
+}
+
+/**
+ * Tell official from fan subtitles. Image formats come off retail discs; otherwise only
+ * a service name or fansub tag in the title is conclusive.
+ */
+export function classifySubtitleSource(title: string, format: string): SubtitleSource {
+  if (OFFICIAL_PATTERN.test(title) || OFFICIAL_TAG_PATTERN.test(title)) return "official";
+  if (FANSUB_PATTERN.test(title)) return "fansub";
+  if (format === "PGS" || format === "VobSub") return "official";
+  return "unknown";
+}
+
+function parseMuxedTracks(mediaInfo: StructuredMediaInfo): SubtitleTrackInfo[] {
+  return mediaInfo.text.map((track) => {
+    const title = getTrackField(track, "title");
+    const format = normalizeSubtitleFormat(getTrackField(track, "format"));
+    return {
+      language: getTrackField(track, "language"),
+      title,
+      format,
+      kind: classifySubtitleKind(title, getTrackField(track, "forced") === "Yes"),
+      source: classifySubtitleSource(title, format),
+      origin: "muxed",
+    };
+  });
+}
+
+/**
+ * External subtitle files, e.g. "Show - 01.en.signs.ass". Files sharing language, kind and
+ * format are one track shipped per episode, so they're reported once.
+ */
+function parseExternalTracks(filelist: FilelistItem[]): SubtitleTrackInfo[] {
+  const tracks = new Map<string, SubtitleTrackInfo>();
+
+  for (const { filename } of filelist) {
+    const basename = filename.split("/").pop() ?? filename;
+    const extension = basename.match(SUBTITLE_EXTENSIONS)?.[1];
+    if (!extension) continue;
+
+    const tags = basename
+      .slice(0, -extension.length - 1)
+      .split(".")
+      .slice(1);
+    const language = tags.map((tag) => LANGUAGE_CODES[tag.toLowerCase()]).find(Boolean) ?? "";
+    const title = tags.filter((tag) => !LANGUAGE_CODES[tag.toLowerCase()]).join(" ");
+    const format = normalizeSubtitleFormat(extension === "sup" ? "PGS" : extension);
+    const kind = classifySubtitleKind(title);
+    const key = `${language}|${kind}|${format}`;
+
+    if (!tracks.has(key)) {
+      tracks.set(key, {
+        language,
+        title,
+        format,
+        kind,
+        source: classifySubtitleSource(title, format),
+        origin: "external",
+      });
+    }
+  }
+
+  return [...tracks.values()];
+}
+
+/**
+ * Classify the muxed and external subtitle tracks of a torrent
+ */
+export function analyzeSubtitles(mediaInfo: StructuredMediaInfo | null, filelist: FilelistItem[]): SubtitleAnalysis {
+  const tracks = [...(mediaInfo ? parseMuxedTracks(mediaInfo) : []), ...parseExternalTracks(filelist)];
+  const kinds = (Object.keys(SUBTITLE_KINDS) as SubtitleKind[]).filter((kind) =>
+    tracks.some((track) => track.kind === kind),
+  );
+
+  return {
+    tracks,
+    kinds,
+    hasOfficial: tracks.some(({ source }) => source === "official"),
+    hasFansub: tracks.some(({ source }) => source === "fansub"),
+  };
+}
@@ -0,0 +1,131 @@
+import { type BencodeDictionary, type BencodeValue, bencodeText, decodeBencode, isBencodeDictionary } from "./bencode";
+
+// v1 pieces are listed as concatenated SHA-1 hashes
+const PIECE_HASH_LENGTH = 20;
+
+export interface TorrentFileEntry {
+  path: string[];
+  length: number;
+}
+
+export interface TorrentFileInfo {
+  name: string;
+  infoHash: string;
+  pieceLength: number;
+  pieceCount: number;
+  totalSize: number;
+  isPrivate: boolean;
+  createdBy?: string;
+  creationDate?: Date;
+  comment?: string;
+  source?: string;
+  files: TorrentFileEntry[];
+}
+
+/**
+ * Download a .torrent file as raw bytes
+ */
+export function fetchTorrentFile(url: string): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    GM_xmlhttpRequest({
+      method: "GET",
+      url,
+      responseType: "arraybuffer",
+      onload: (response) => {
+        if (response.status !== 200 || !(response.response instanceof ArrayBuffer)) {
+          reject(new Error(`Failed to fetch torrent file (status ${response.status})`));
+          return;
+        }
+        resolve(new Uint8Array(response.response));
+      },
+      onerror: () => reject(new Error("Failed to fetch torrent file")),
+      ontimeout: () => reject(new Error("Timed out fetching torrent file")),
+    });
+  });
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  [...new Uint8Array(buffer)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const asNumber = (value: BencodeValue | undefined) => (typeof value === "number" ? value : undefined);
+
+/**
+ * Files of a v1 torrent: a "files" list for multi-file torrents, "length" for a single file.
+ * Paths start with the torrent name, which is the folder of multi-file torrents.
+ */
+function getV1Files(info: BencodeDictionary, name: string): TorrentFileEntry[] | null {
+  const singleLength = asNumber(info.length);
+  if (singleLength !== undefined) return [{ path: [name], length: singleLength }];
+  if (!Array.isArray(info.files)) return null;
+
+  return info.files.filter(isBencodeDictionary).map((file) => ({
+    path: [name, ...(Array.isArray(file.path) ? file.path.map((part) => bencodeText(part) ?? "") : [])],
+    length: asNumber(file.length) ?? 0,
+  }));
+}
+
+/**
+ * Files of a v2-only torrent, whose "file tree" nests directories with files marked by an empty key
+ */
+function getV2TreeFiles(tree: BencodeDictionary, path: string[] = []): TorrentFileEntry[] {
+  return Object.entries(tree).flatMap(([name, node]) => {
+    if (!isBencodeDictionary(node)) return [];
+    const file = node[""];
+    if (isBencodeDictionary(file)) return [{ path: [...path, name], length: asNumber(file.length) ?? 0 }];
+    return getV2TreeFiles(node, [...path, name]);
+  });
+}
+
+/**
+ * Files of a v2-only torrent, with the same paths as v1: a single file is named after the torrent,
+ * otherwise the torrent name is the folder
+ */
+function getV2Files(info: BencodeDictionary, name: string): TorrentFileEntry[] {
+  const tree = info["file tree"];
+  if (!isBencodeDictionary(tree)) return [];
+
+  const files = getV2TreeFiles(tree);
+  if (files.length === 1 && files[0].path.length === 1) return files;
+  return files.map(({ path, length }) => ({ path: [name, ...path], length }));
+}
+
+/**
+ * Decode a .torrent file. The info-hash is the v1 SHA-1 of the bencoded info dictionary.
+ */
+export async function inspectTorrentFile(data: Uint8Array): Promise<TorrentFileInfo> {
+  const { value, ranges } = decodeBencode(data);
+  const infoRange = ranges.get("info");
+  if (!isBencodeDictionary(value) || !isBencodeDictionary(value.info) || !infoRange) {
+    throw new Error("Not a torrent file: the info dictionary is missing");
+  }
+
+  const { info } = value;
+  const name = bencodeText(info.name) ?? "";
+  const files = getV1Files(info, name) ?? getV2Files(info, name);
+
+  const pieceLength = asNumber(info["piece length"]) ?? 0;
+  const totalSize = files.reduce((total, file) => total + file.length, 0);
+  const pieceCount =
+    info.pieces instanceof Uint8Array
+      ? info.pieces.length / PIECE_HASH_LENGTH
+      : pieceLength > 0
+        ? Math.ceil(totalSize / pieceLength)
+        : 0;
+
+  const creationDate = asNumber(value["creation date"]);
+  const infoHash = toHex(await crypto.subtle.digest("SHA-1", data.slice(infoRange[0], infoRange[1])));
+
+  return {
+    name,
+    infoHash,
+    pieceLength,
+    pieceCount,
+    totalSize,
+    isPrivate: info.private === 1,
+    createdBy: bencodeText(value["created by"]),
+    creationDate: creationDate !== undefined ? new Date(creationDate * 1000) : undefined,
+    comment: bencodeText(value.comment),
+    source: bencodeText(info.source),
+    files,
+  };
+}
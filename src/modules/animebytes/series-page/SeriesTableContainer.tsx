@@ -61,7 +61,7 @@ export function SeriesTableContainer({
     if (containerRef.current && torrents.length > 0 && !isCollapsed && shouldRender) {
       time(`TorrentTable render - ${title}`);
       render(
-        <TorrentTable torrents={torrents} originalTable={originalTable} isSeriesPage={true} />,
+        <TorrentTable torrents={torrents} originalTable={originalTable} isSeriesPage={true} title={title} />,
         containerRef.current,
       );
       timeEnd(`TorrentTable render - ${title}`);
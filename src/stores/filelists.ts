@@ -0,0 +1,101 @@
+import { err, log } from "@/utils/logging";
+
+const FILELIST_KEY_PREFIX = "ab-suite-filelists-";
+// Older groups are dropped once more than this many have been viewed
+const MAX_STORED_GROUPS = 50;
+
+export interface StoredFile {
+  name: string;
+  size: string;
+  bytes?: number;
+}
+
+export interface StoredTorrentFilelist {
+  torrentId: string;
+  label: string;
+  files: StoredFile[];
+}
+
+/**
+ * Filelists of the torrents in a group, as seen on the last visit
+ */
+export interface StoredGroupFilelists {
+  groupId: string;
+  title: string;
+  savedAt: number;
+  torrents: StoredTorrentFilelist[];
+}
+
+// Every stored group, loaded on first use and kept in sync with the writes of this page
+let storedGroups: Map<string, StoredGroupFilelists> | null = null;
+
+function isStoredGroup(value: unknown): value is StoredGroupFilelists {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as StoredGroupFilelists).groupId === "string" &&
+    typeof (value as StoredGroupFilelists).savedAt === "number" &&
+    Array.isArray((value as StoredGroupFilelists).torrents)
+  );
+}
+
+function loadStoredGroups(): Map<string, StoredGroupFilelists> {
+  if (storedGroups) return storedGroups;
+
+  storedGroups = new Map();
+  try {
+    for (const key of GM_listValues()) {
+      if (!key.startsWith(FILELIST_KEY_PREFIX)) continue;
+      const value = GM_getValue(key, null);
+      if (isStoredGroup(value)) {
+        storedGroups.set(value.groupId, value);
+      }
+    }
+  } catch (error) {
+    err("Failed to load stored filelists", error);
+  }
+  return storedGroups;
+}
+
+/**
+ * Drop the least recently viewed groups beyond the limit
+ */
+function pruneStoredGroups(groups: Map<string, StoredGroupFilelists>) {
+  if (groups.size <= MAX_STORED_GROUPS) return;
+
+  const expired = [...groups.values()].sort((a, b) => b.savedAt - a.savedAt).slice(MAX_STORED_GROUPS);
+  for (const { groupId } of expired) {
+    groups.delete(groupId);
+    GM_deleteValue(`${FILELIST_KEY_PREFIX}${groupId}`);
+  }
+  log(`Dropped the filelists of ${expired.length} groups`);
+}
+
+/**
+ * Remember the filelists of a group. Torrents without one are kept from the previous visit,
+ * since several tables on one page can each show part of a group.
+ */
+export function recordGroupFilelists(groupId: string, title: string, torrents: StoredTorrentFilelist[]) {
+  const groups = loadStoredGroups();
+  const previous = groups.get(groupId);
+  const recordedIds = new Set(torrents.map(({ torrentId }) => torrentId));
+
+  const record: StoredGroupFilelists = {
+    groupId,
+    title,
+    savedAt: Date.now(),
+    torrents: [...(previous?.torrents ?? []).filter(({ torrentId }) => !recordedIds.has(torrentId)), ...torrents],
+  };
+
+  try {
+    GM_setValue(`${FILELIST_KEY_PREFIX}${groupId}`, record);
+    groups.set(groupId, record);
+    pruneStoredGroups(groups);
+  } catch (error) {
+    err("Failed to store filelists", error);
+  }
+}
+
+export function getStoredFilelists(): StoredGroupFilelists[] {
+  return [...loadStoredGroups().values()];
+}
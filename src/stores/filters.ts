@@ -0,0 +1,182 @@
+import { useEffect, useState } from "preact/hooks";
+import type { FilterCategory, FilterFlag, TorrentFilters } from "@/types/modern-table";
+
+// Hash parameters are prefixed so they don't clash with other anchors on the page
+const HASH_PARAM_PREFIX = "ab-";
+const FILTER_CATEGORIES: FilterCategory[] = ["resolution", "videoCodec", "container", "group", "subtitles", "seadex"];
+const FILTER_FLAGS: FilterFlag[] = ["dualAudio", "freeleech"];
+
+export const EMPTY_FILTERS: TorrentFilters = {
+  values: {},
+  flags: [],
+  minSize: null,
+  maxSize: null,
+};
+
+interface FilterStore {
+  filters: TorrentFilters;
+  activeCount: number;
+  toggleValue: (category: FilterCategory, value: string) => void;
+  toggleFlag: (flag: FilterFlag) => void;
+  setSizeRange: (minSize: number | null, maxSize: number | null) => void;
+  clear: () => void;
+  subscribe: (callback: () => void) => () => void;
+}
+
+function parseSizeBound(value: string | undefined): number | null {
+  if (!value) return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Read filters from a URL hash such as `#ab-resolution=1080p&ab-resolution=720p&ab-flag=dualAudio&ab-size=1-8`
+ */
+function parseFiltersFromHash(hash: string): TorrentFilters {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const filters: TorrentFilters = { ...EMPTY_FILTERS, values: {}, flags: [] };
+
+  for (const category of FILTER_CATEGORIES) {
+    const values = params.getAll(`${HASH_PARAM_PREFIX}${category}`).filter(Boolean);
+    if (values.length > 0) {
+      filters.values[category] = values;
+    }
+  }
+
+  filters.flags = params
+    .getAll(`${HASH_PARAM_PREFIX}flag`)
+    .filter((flag): flag is FilterFlag => FILTER_FLAGS.includes(flag as FilterFlag));
+
+  const [min, max] = (params.get(`${HASH_PARAM_PREFIX}size`) || "").split("-");
+  filters.minSize = parseSizeBound(min);
+  filters.maxSize = parseSizeBound(max);
+
+  return filters;
+}
+
+function serializeFiltersToHash(filters: TorrentFilters): string {
+  const params = new URLSearchParams();
+
+  for (const category of FILTER_CATEGORIES) {
+    for (const value of filters.values[category] || []) {
+      params.append(`${HASH_PARAM_PREFIX}${category}`, value);
+    }
+  }
+
+  for (const flag of filters.flags) {
+    params.append(`${HASH_PARAM_PREFIX}flag`, flag);
+  }
+
+  if (filters.minSize !== null || filters.maxSize !== null) {
+    params.set(`${HASH_PARAM_PREFIX}size`, `${filters.minSize ?? ""}-${filters.maxSize ?? ""}`);
+  }
+
+  return params.toString();
+}
+
+function countActiveFilters(filters: TorrentFilters): number {
+  const valueCount = Object.values(filters.values).reduce((total, values) => total + (values?.length || 0), 0);
+  const sizeCount = filters.minSize !== null || filters.maxSize !== null ? 1 : 0;
+  return valueCount + filters.flags.length + sizeCount;
+}
+
+/**
+ * Page-wide filter state shared by every modern table on the page and mirrored in the URL hash
+ */
+class SimpleFilterStore {
+  private state: TorrentFilters | null = null;
+  private subscribers = new Set<() => void>();
+  private listeningToHash = false;
+
+  get filters(): TorrentFilters {
+    if (!this.state) {
+      this.state = parseFiltersFromHash(window.location.hash);
+    }
+    return this.state;
+  }
+
+  get activeCount(): number {
+    return countActiveFilters(this.filters);
+  }
+
+  toggleValue = (category: FilterCategory, value: string) => {
+    const current = this.filters.values[category] || [];
+    const next = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+    const values = { ...this.filters.values, [category]: next };
+    if (next.length === 0) {
+      delete values[category];
+    }
+    this.setFilters({ ...this.filters, values });
+  };
+
+  toggleFlag = (flag: FilterFlag) => {
+    const { flags } = this.filters;
+    this.setFilters({
+      ...this.filters,
+      flags: flags.includes(flag) ? flags.filter((f) => f !== flag) : [...flags, flag],
+    });
+  };
+
+  setSizeRange = (minSize: number | null, maxSize: number | null) => {
+    this.setFilters({ ...this.filters, minSize, maxSize });
+  };
+
+  clear = () => {
+    this.setFilters(EMPTY_FILTERS);
+  };
+
+  subscribe = (callback: () => void) => {
+    this.subscribers.add(callback);
+    this.listenToHash();
+    return () => this.subscribers.delete(callback);
+  };
+
+  private setFilters(filters: TorrentFilters) {
+    this.state = filters;
+    this.writeHash();
+    this.notifySubscribers();
+  }
+
+  // Replace the hash without adding a history entry; foreign anchors are only dropped while filters are active
+  private writeHash() {
+    const serialized = serializeFiltersToHash(this.filters);
+    const currentHash = window.location.hash.replace(/^#/, "");
+    const ownsHash = currentHash === "" || currentHash.startsWith(HASH_PARAM_PREFIX);
+
+    if (serialized) {
+      history.replaceState(history.state, "", `#${serialized}`);
+    } else if (ownsHash && currentHash !== "") {
+      history.replaceState(history.state, "", window.location.pathname + window.location.search);
+    }
+  }
+
+  // Pick up filters from links opened in the same tab and from back/forward navigation
+  private listenToHash() {
+    if (this.listeningToHash) return;
+    this.listeningToHash = true;
+
+    window.addEventListener("hashchange", () => {
+      this.state = parseFiltersFromHash(window.location.hash);
+      this.notifySubscribers();
+    });
+  }
+
+  private notifySubscribers() {
+    this.subscribers.forEach((callback) => callback());
+  }
+}
+
+export const filterStore = new SimpleFilterStore();
+
+// Hook for React/Preact components
+export function useFilterStore(): FilterStore {
+  const [, forceUpdate] = useState({});
+
+  useEffect(() => {
+    return filterStore.subscribe(() => {
+      forceUpdate({});
+    });
+  }, []);
+
+  return filterStore;
+}
@@ -0,0 +1,94 @@
+import type { SortKey } from "@/types/modern-table";
+import { err } from "@/utils/logging";
+
+const PAGE_STATE_KEY_PREFIX = "ab-suite-page-";
+
+/**
+ * UI state of one torrent table, restored when the page is opened again in the same tab
+ */
+export interface TablePageState {
+  expandedRows: string[];
+  /** Active details tab per expanded torrent */
+  activeTabs: Record<string, string>;
+  /** Collapsed sections by position and title, since section IDs change on every load */
+  collapsedSections: string[];
+  /** Sort chosen on this page, unset while the table follows the saved sort order of its type */
+  sortKeys?: SortKey[];
+}
+
+let scrollRestoreTimeout: ReturnType<typeof setTimeout> | undefined;
+let hasRestoredScroll = false;
+let isScrollSaveRegistered = false;
+
+/**
+ * Pages are identified by their group or series ID, falling back to the full URL
+ */
+function getPageKey(): string {
+  const id = new URLSearchParams(window.location.search).get("id");
+  if (id && window.location.pathname.includes("/torrents")) return `group-${id}`;
+  if (id && window.location.pathname.includes("/series.php")) return `series-${id}`;
+  return `${window.location.pathname}${window.location.search}`;
+}
+
+function readState<T>(key: string): T | null {
+  try {
+    const value = sessionStorage.getItem(`${PAGE_STATE_KEY_PREFIX}${key}`);
+    return value ? (JSON.parse(value) as T) : null;
+  } catch (error) {
+    err("Failed to read page state", error);
+    return null;
+  }
+}
+
+function writeState(key: string, value: unknown) {
+  try {
+    sessionStorage.setItem(`${PAGE_STATE_KEY_PREFIX}${key}`, JSON.stringify(value));
+  } catch (error) {
+    err("Failed to save page state", error);
+  }
+}
+
+/**
+ * Key of a table on the current page; tables are told apart by their title or first group
+ */
+export function getTableStateKey(tableId: string): string {
+  return `${getPageKey()}:${tableId}`;
+}
+
+export function loadTableState(key: string): TablePageState | null {
+  return readState<TablePageState>(key);
+}
+
+export function saveTableState(key: string, updates: Partial<TablePageState>) {
+  const current = readState<TablePageState>(key) ?? { expandedRows: [], activeTabs: {}, collapsedSections: [] };
+  writeState(key, { ...current, ...updates });
+}
+
+/**
+ * Save the scroll position when leaving the page and restore it once the tables have rendered.
+ * Every table calls this after mounting; only the last call restores, so the page has its full
+ * height by then. Pages restored from the back/forward cache keep their scroll position anyway.
+ */
+export function restoreScrollPosition() {
+  const key = `${getPageKey()}:scroll`;
+
+  if (!isScrollSaveRegistered) {
+    isScrollSaveRegistered = true;
+    window.addEventListener("pagehide", () => writeState(key, window.scrollY));
+  }
+
+  if (hasRestoredScroll) return;
+  const scrollY = readState<number>(key);
+  if (typeof scrollY !== "number" || scrollY <= 0) return;
+
+  // The browser would restore it before the tables exist, landing too high
+  if ("scrollRestoration" in history) {
+    history.scrollRestoration = "manual";
+  }
+
+  clearTimeout(scrollRestoreTimeout);
+  scrollRestoreTimeout = setTimeout(() => {
+    hasRestoredScroll = true;
+    window.scrollTo(0, scrollY);
+  }, 100);
+}
@@ -1,4 +1,6 @@
 import { useEffect, useState } from "preact/hooks";
+import { QUALITY_PROFILES } from "@/constants";
+import type { ColumnLayouts, GroupingModes, QualityProfile, SortOrders } from "@/types/modern-table";
 import { err } from "@/utils/logging";
 
 // Constant for settings keys prefix to avoid magic strings
@@ -35,17 +37,50 @@ export interface Settings {
   simklClientId: string;
   tmdbApiToken: string;
   youtubeApiKey: string;
+  columnLayouts: ColumnLayouts;
+  sortOrders: SortOrders;
+  groupingModes: GroupingModes;
+  qualityScoringEnabled: boolean;
+  qualityProfiles: QualityProfile[];
+  activeQualityProfileId: string;
+  preferredReleaseGroups: string[];
+  blockedReleaseGroups: string[];
+  blockedReleaseGroupMode: "dim" | "hide";
+  keyboardNavigationEnabled: boolean;
+  bulkDownloadFilenameTemplate: string;
+  bulkDownloadDelaySeconds: number;
+  healthLowSeeders: number;
+  healthDyingSeeders: number;
+  healthOldTorrentDays: number;
+  healthLargeTorrentGiB: number;
+  reseedMinSnatches: number;
+  detailsPrefetchMode: "off" | "hover" | "idle";
+  duplicateDetectionEnabled: boolean;
+  crossSeedFinderEnabled: boolean;
 }
 
+/**
+ * Keys of settings holding a boolean value (the ones that can be toggled)
+ */
+export type BooleanSettingKey = { [K in keyof Settings]: Settings[K] extends boolean ? K : never }[keyof Settings];
+
+/**
+ * Keys of settings holding a plain string value
+ */
+export type StringSettingKey = { [K in keyof Settings]: Settings[K] extends string ? K : never }[keyof Settings];
+
+/**
+ * Keys of settings holding a number value
+ */
+export type NumberSettingKey = { [K in keyof Settings]: Settings[K] extends number ? K : never }[keyof Settings];
+
 interface SettingsStore extends Settings {
   isLoaded: boolean;
   loadSettings: () => void;
   updateSetting: <K extends keyof Settings>(key: K, value: Settings[K]) => void;
-  updateStringSetting: (
-    key: keyof Pick<Settings, "simklClientId" | "tmdbApiToken" | "youtubeApiKey">,
-    value: string,
-  ) => void;
-  toggleSetting: (key: keyof Omit<Settings, "simklClientId" | "tmdbApiToken" | "youtubeApiKey">) => void;
+  updateStringSetting: (key: StringSettingKey, value: string) => void;
+  updateNumberSetting: (key: NumberSettingKey, value: number) => void;
+  toggleSetting: (key: BooleanSettingKey) => void;
   getSettingsByType: <T extends "boolean" | "string">(
     type: T,
   ) => Record<string, T extends "boolean" ? boolean : string>;
@@ -86,6 +121,26 @@ const DEFAULT_SETTINGS: Settings = {
   simklClientId: "",
   tmdbApiToken: "",
   youtubeApiKey: "",
+  columnLayouts: {},
+  sortOrders: {},
+  groupingModes: {},
+  qualityScoringEnabled: true,
+  qualityProfiles: [QUALITY_PROFILES.DEFAULT_PROFILE],
+  activeQualityProfileId: QUALITY_PROFILES.DEFAULT_PROFILE_ID,
+  preferredReleaseGroups: [],
+  blockedReleaseGroups: [],
+  blockedReleaseGroupMode: "dim",
+  keyboardNavigationEnabled: true,
+  bulkDownloadFilenameTemplate: "{page} - {section} [{group}] {torrentId}",
+  bulkDownloadDelaySeconds: 2,
+  healthLowSeeders: 5,
+  healthDyingSeeders: 2,
+  healthOldTorrentDays: 365,
+  healthLargeTorrentGiB: 50,
+  reseedMinSnatches: 10,
+  detailsPrefetchMode: "hover",
+  duplicateDetectionEnabled: true,
+  crossSeedFinderEnabled: true,
 };
 
 // Add the Settings properties to the class interface via declaration merging
@@ -166,15 +221,16 @@ class SimpleSettingsStore {
 
   // Helper type definitions for better type safety are now inlined where needed
 
-  updateStringSetting = (
-    key: keyof Pick<Settings, "simklClientId" | "tmdbApiToken" | "youtubeApiKey">,
-    value: string,
-  ) => {
+  updateStringSetting = (key: StringSettingKey, value: string) => {
+    this.updateSetting(key, value);
+  };
+
+  updateNumberSetting = (key: NumberSettingKey, value: number) => {
     this.updateSetting(key, value);
   };
 
-  toggleSetting = (key: keyof Omit<Settings, "simklClientId" | "tmdbApiToken" | "youtubeApiKey">) => {
-    const current = this.state[key] as boolean;
+  toggleSetting = (key: BooleanSettingKey) => {
+    const current = this.state[key];
     this.updateSetting(key, !current);
   };
 
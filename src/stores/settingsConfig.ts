@@ -4,8 +4,13 @@ export type SettingType = "boolean" | "string" | "number" | "select";
 
 export type SettingValue = boolean | string | number;
 
+/**
+ * Keys of settings that hold a scalar value and can be edited as a single field
+ */
+export type ScalarSettingKey = { [K in keyof Settings]: Settings[K] extends SettingValue ? K : never }[keyof Settings];
+
 export interface SettingConfig {
-  key: keyof Settings;
+  key: ScalarSettingKey;
   label: string;
   description: string;
   type: SettingType;
@@ -14,6 +19,9 @@ export interface SettingConfig {
   placeholder?: string;
   helpUrl?: string;
   options?: { value: SettingValue; label: string }[];
+  min?: number;
+  max?: number;
+  step?: number;
   validation?: (value: SettingValue) => boolean;
   dependencies?: {
     setting: keyof Settings;
@@ -58,26 +66,47 @@ export const SETTING_CATEGORIES: SettingCategory[] = [
     icon: "📊",
     order: 4,
   },
+  {
+    id: "quality",
+    label: "Quality Profiles",
+    description: "Score torrents with custom rules and highlight the best release in each section",
+    icon: "🏆",
+    order: 5,
+  },
+  {
+    id: "groups",
+    label: "Release Groups",
+    description: "Pin preferred release groups and dim or hide blocked ones",
+    icon: "👥",
+    order: 6,
+  },
+  {
+    id: "health",
+    label: "Torrent Health",
+    description: "Thresholds for the health badges and reseed request shortcuts in torrent tables",
+    icon: "🩺",
+    order: 7,
+  },
   {
     id: "visual",
     label: "Visual Settings",
     description: "Customize the appearance and layout of content",
     icon: "🎨",
-    order: 5,
+    order: 8,
   },
   {
     id: "api",
     label: "API Configuration",
     description: "Configure external API credentials and keys",
     icon: "🔐",
-    order: 6,
+    order: 9,
   },
   {
     id: "advanced",
     label: "Advanced",
     description: "Developer and debugging options",
     icon: "⚙️",
-    order: 7,
+    order: 10,
   },
 ];
 
@@ -276,7 +305,7 @@ export const SETTINGS_CONFIG: SettingConfig[] = [
   {
     key: "showRegionColumn",
     label: "Show Region Column",
-    description: "Displays the region column (R1, R2, A, B, etc.) in the modern table layout",
+    description: "Displays the region column (R1, R2, A, B, etc.) in the default column layout",
     type: "boolean",
     category: "table",
     dependencies: [{ setting: "tableRestructureEnabled", value: true }],
@@ -284,11 +313,160 @@ export const SETTINGS_CONFIG: SettingConfig[] = [
   {
     key: "showDualAudioColumn",
     label: "Show Dual Audio Column",
-    description: "Displays the dual audio column (checkmark/X indicator) in the modern table layout",
+    description: "Displays the dual audio column (checkmark/X indicator) in the default column layout",
     type: "boolean",
     category: "table",
     dependencies: [{ setting: "tableRestructureEnabled", value: true }],
   },
+  {
+    key: "bulkDownloadFilenameTemplate",
+    label: "Bulk Download Filename",
+    description:
+      "Filename for torrents downloaded in bulk. Tokens: {page}, {section}, {group}, {name}, {resolution}, {source}, {torrentId}, {groupId}",
+    type: "string",
+    category: "table",
+    placeholder: "{page} - {section} [{group}] {torrentId}",
+    dependencies: [{ setting: "tableRestructureEnabled", value: true }],
+  },
+  {
+    key: "bulkDownloadDelaySeconds",
+    label: "Bulk Download Delay",
+    description: "Seconds to wait between downloads when downloading selected torrents in bulk",
+    type: "number",
+    category: "table",
+    min: 0.5,
+    max: 30,
+    step: 0.5,
+    validation: (value) => typeof value === "number" && value >= 0.5 && value <= 30,
+    dependencies: [{ setting: "tableRestructureEnabled", value: true }],
+  },
+  {
+    key: "detailsPrefetchMode",
+    label: "Prefetch Torrent Details",
+    description:
+      "Fetch screenshots and peer lists into the cache before a torrent is expanded: when hovering a row, or also for the first torrents on the page while the browser is idle",
+    type: "select",
+    category: "table",
+    options: [
+      { value: "off", label: "Off" },
+      { value: "hover", label: "On hover" },
+      { value: "idle", label: "On hover and when idle" },
+    ],
+    dependencies: [{ setting: "tableRestructureEnabled", value: true }],
+  },
+  {
+    key: "duplicateDetectionEnabled",
+    label: "Dim Duplicates and Superseded Releases",
+    description:
+      "Dim likely duplicates (same group, size and file count) and releases replaced by a newer version or a batch from the same group",
+    type: "boolean",
+    category: "table",
+    dependencies: [{ setting: "tableRestructureEnabled", value: true }],
+  },
+  {
+    key: "crossSeedFinderEnabled",
+    label: "Cross-seed Finder",
+    description:
+      "Remember the filelists of recently viewed groups and list torrents whose files match by name and size in the details panel",
+    type: "boolean",
+    category: "table",
+    dependencies: [{ setting: "tableRestructureEnabled", value: true }],
+  },
+  {
+    key: "keyboardNavigationEnabled",
+    label: "Keyboard Navigation",
+    description: "Navigate torrent tables with j/k or the arrow keys. Press ? on a torrent page to list the shortcuts",
+    type: "boolean",
+    category: "table",
+    dependencies: [{ setting: "tableRestructureEnabled", value: true }],
+  },
+
+  // Quality Profiles
+  {
+    key: "qualityScoringEnabled",
+    label: "Quality Scoring",
+    description:
+      "Scores torrents with the active quality profile, adds a score column and highlights the best torrent in each section",
+    type: "boolean",
+    category: "quality",
+    dependencies: [{ setting: "tableRestructureEnabled", value: true }],
+  },
+
+  // Release Groups
+  {
+    key: "blockedReleaseGroupMode",
+    label: "Blocked Group Handling",
+    description: "Whether torrents and gallery cards from blocked release groups are dimmed or hidden",
+    type: "select",
+    category: "groups",
+    options: [
+      { value: "dim", label: "Dim" },
+      { value: "hide", label: "Hide" },
+    ],
+  },
+
+  // Torrent Health
+  {
+    key: "healthLowSeeders",
+    label: "Low Seeds Below",
+    description: "Torrents with fewer seeders than this are marked as low on seeds",
+    type: "number",
+    category: "health",
+    min: 1,
+    max: 100,
+    step: 1,
+    validation: (value) => typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 100,
+    dependencies: [{ setting: "tableRestructureEnabled", value: true }],
+  },
+  {
+    key: "healthDyingSeeders",
+    label: "Dying At",
+    description:
+      "Torrents with this many seeders or fewer are marked as dying when they are old, large or have more leechers than seeders",
+    type: "number",
+    category: "health",
+    min: 1,
+    max: 50,
+    step: 1,
+    validation: (value) => typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 50,
+    dependencies: [{ setting: "tableRestructureEnabled", value: true }],
+  },
+  {
+    key: "healthOldTorrentDays",
+    label: "Old Torrent Age (days)",
+    description: "Uploads older than this count as old; needs the torrent details to be on the page",
+    type: "number",
+    category: "health",
+    min: 1,
+    max: 3650,
+    step: 1,
+    validation: (value) => typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 3650,
+    dependencies: [{ setting: "tableRestructureEnabled", value: true }],
+  },
+  {
+    key: "healthLargeTorrentGiB",
+    label: "Large Torrent Size (GiB)",
+    description: "Torrents at least this large count as large, since few people keep seeding them",
+    type: "number",
+    category: "health",
+    min: 1,
+    max: 1000,
+    step: 1,
+    validation: (value) => typeof value === "number" && value >= 1 && value <= 1000,
+    dependencies: [{ setting: "tableRestructureEnabled", value: true }],
+  },
+  {
+    key: "reseedMinSnatches",
+    label: "Reseed Request Snatches",
+    description: "Dying and dead torrents with at least this many snatches get a reseed request shortcut",
+    type: "number",
+    category: "health",
+    min: 1,
+    max: 1000,
+    step: 1,
+    validation: (value) => typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 1000,
+    dependencies: [{ setting: "tableRestructureEnabled", value: true }],
+  },
 
   // API Configuration
   {
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "preact/hooks";
+import { err, log } from "@/utils/logging";
+
+const VISIT_KEY_PREFIX = "ab-suite-visit-";
+// Visits to groups we haven't opened in this long are forgotten
+const VISIT_EXPIRY_MS = 180 * 24 * 60 * 60 * 1000;
+
+export interface VisitRecord {
+  lastVisit: number;
+  torrentIds: string[];
+}
+
+// Visit records as they were when the page loaded, before this visit overwrote them
+const previousVisits = new Map<string, VisitRecord | null>();
+// Groups whose new torrents were marked as seen on this page
+const seenGroups = new Set<string>();
+// Number of new torrents each table on the page shows, for the page title
+const newCounts = new Map<object, number>();
+let baseTitle: string | null = null;
+let hasExpiredVisits = false;
+
+const listeners = new Set<() => void>();
+
+function notifyListeners() {
+  listeners.forEach((listener) => listener());
+}
+
+function isVisitRecord(value: unknown): value is VisitRecord {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as VisitRecord).lastVisit === "number" &&
+    Array.isArray((value as VisitRecord).torrentIds)
+  );
+}
+
+function readVisit(groupId: string): VisitRecord | null {
+  const value = GM_getValue(`${VISIT_KEY_PREFIX}${groupId}`, null);
+  return isVisitRecord(value) ? value : null;
+}
+
+/**
+ * Drop visit records that are too old to be useful, once per page load
+ */
+function expireOldVisits() {
+  if (hasExpiredVisits) return;
+  hasExpiredVisits = true;
+
+  try {
+    const cutoff = Date.now() - VISIT_EXPIRY_MS;
+    const expired = GM_listValues().filter((key) => {
+      if (!key.startsWith(VISIT_KEY_PREFIX)) return false;
+      const value = GM_getValue(key, null);
+      return !isVisitRecord(value) || value.lastVisit < cutoff;
+    });
+
+    for (const key of expired) {
+      GM_deleteValue(key);
+    }
+    if (expired.length > 0) {
+      log(`Expired ${expired.length} visit records`);
+    }
+  } catch (error) {
+    err("Failed to expire visit records", error);
+  }
+}
+
+/**
+ * The visit to a group before the current page load, null if this is the first one
+ */
+export function getPreviousVisit(groupId: string): VisitRecord | null {
+  expireOldVisits();
+  if (!previousVisits.has(groupId)) {
+    previousVisits.set(groupId, readVisit(groupId));
+  }
+  return previousVisits.get(groupId) ?? null;
+}
+
+/**
+ * Remember the torrents seen in a group. IDs are merged with the stored ones, since several
+ * tables on one page can show torrents of the same group.
+ */
+export function recordVisit(groupId: string, torrentIds: string[]) {
+  // Snapshot the previous visit before it's overwritten
+  getPreviousVisit(groupId);
+
+  const stored = readVisit(groupId);
+  const record: VisitRecord = {
+    lastVisit: Date.now(),
+    torrentIds: [...new Set([...(stored?.torrentIds ?? []), ...torrentIds])],
+  };
+  GM_setValue(`${VISIT_KEY_PREFIX}${groupId}`, record);
+}
+
+export function isGroupMarkedSeen(groupId: string): boolean {
+  return seenGroups.has(groupId);
+}
+
+/**
+ * Stop highlighting new torrents on this page; they're already stored as seen for the next visit
+ */
+export function markAllSeen() {
+  for (const groupId of previousVisits.keys()) {
+    seenGroups.add(groupId);
+  }
+  notifyListeners();
+}
+
+/**
+ * Show the number of new torrents across all tables in the page title, e.g. "(3 new) Group name"
+ */
+export function setNewTorrentCount(owner: object, count: number) {
+  if (baseTitle === null) baseTitle = document.title;
+
+  if (count > 0) {
+    newCounts.set(owner, count);
+  } else {
+    newCounts.delete(owner);
+  }
+
+  const total = [...newCounts.values()].reduce((sum, value) => sum + value, 0);
+  document.title = total > 0 ? `(${total} new) ${baseTitle}` : baseTitle;
+}
+
+/**
+ * Re-render when new torrents are marked as seen
+ */
+export function useVisitUpdates() {
+  const [, forceUpdate] = useState({});
+
+  useEffect(() => {
+    const listener = () => forceUpdate({});
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }, []);
+}
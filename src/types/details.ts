@@ -27,6 +27,7 @@ export interface UploadDescriptionData {
 export interface FilelistItem {
   filename: string;
   size: string;
+  bytes?: number; // Exact size, when the site lists it next to the rounded one
 }
 
 /**
@@ -61,6 +62,39 @@ export interface SeaDexData {
   // Add other SeaDex properties as needed
 }
 
+/**
+ * What a subtitle track covers
+ */
+export type SubtitleKind = "full" | "signs" | "honorifics" | "sdh";
+
+/**
+ * Where a subtitle track comes from, when the title or format gives it away
+ */
+export type SubtitleSource = "official" | "fansub" | "unknown";
+
+/**
+ * A subtitle track, either muxed (from MediaInfo) or an external file (from the filelist)
+ */
+export interface SubtitleTrackInfo {
+  language: string;
+  title: string;
+  format: string;
+  kind: SubtitleKind;
+  source: SubtitleSource;
+  origin: "muxed" | "external";
+}
+
+/**
+ * Classified subtitle tracks of a torrent
+ */
+export interface SubtitleAnalysis {
+  tracks: SubtitleTrackInfo[];
+  /** Distinct kinds, in the order of SUBTITLE_KINDS */
+  kinds: SubtitleKind[];
+  hasOfficial: boolean;
+  hasFansub: boolean;
+}
+
 /**
  * Complete torrent details data structure
  */
@@ -69,6 +103,7 @@ export interface TorrentDetailsData {
   description: string;
   mediaInfo: string;
   filelist: FilelistItem[];
+  subtitleAnalysis: SubtitleAnalysis;
   screenshots: ScreenshotItem[];
   peerlist: PeerlistItem[];
   seadexData: SeaDexData | null;
@@ -82,4 +117,6 @@ export interface TorrentDetailsProps {
   groupId: string;
   detailsHtml: string;
   onDataExtracted?: (data: TorrentDetailsData) => void;
+  initialTab?: string; // Tab to open with, e.g. when restoring the page state
+  onTabChange?: (tab: string) => void;
 }
@@ -9,20 +9,41 @@ export type {
   PeerlistItem,
   ScreenshotItem,
   SeaDexData,
+  SubtitleAnalysis,
+  SubtitleKind,
+  SubtitleSource,
+  SubtitleTrackInfo,
   TorrentDetailsData,
   TorrentDetailsProps,
   UploadDescriptionData,
 } from "./details";
 
+// Re-export all quality profile types
+export type {
+  QualityProfile,
+  QualityRule,
+  QualityRuleField,
+  QualityRuleOperator,
+} from "./quality";
+
 // Re-export all table-related types
 export type {
+  ColumnId,
+  ColumnLayouts,
+  FilterCategory,
+  FilterFlag,
   GroupedTorrents,
   GroupHeader,
+  GroupingMode,
+  GroupingModes,
   SortColumn,
   SortDirection,
+  SortKey,
+  SortOrders,
   TableItem,
   TableSection,
   TableType,
+  TorrentFilters,
   TorrentTableProps,
   TorrentTableState,
 } from "./tables";
@@ -30,4 +51,7 @@ export type {
 export type {
   MediaInfo,
   ParsedTorrentRow,
+  ReleaseRedundancy,
+  TorrentHealth,
+  TorrentHealthStatus,
 } from "./torrents";
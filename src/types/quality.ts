@@ -0,0 +1,67 @@
+/**
+ * Quality profile types for scoring torrents with user-defined rules
+ */
+
+/**
+ * Torrent properties a quality rule can inspect
+ */
+export type QualityRuleField =
+  // Parsed row fields
+  | "name"
+  | "group"
+  | "format"
+  | "container"
+  | "videoCodec"
+  | "resolution"
+  | "audio"
+  | "audioChannels"
+  | "subtitles"
+  | "region"
+  | "flags"
+  | "size"
+  | "seeders"
+  | "snatches"
+  | "dualAudio"
+  | "freeleech"
+  | "seadexBest"
+  | "seadexAlt"
+  // Parsed MediaInfo fields
+  | "audioLanguages"
+  | "audioCodecs"
+  | "subtitleLanguages"
+  | "subtitleFormats";
+
+/**
+ * How a rule compares the field value against its configured value
+ */
+export type QualityRuleOperator =
+  | "contains"
+  | "notContains"
+  | "equals"
+  | "regex"
+  | "greaterThan"
+  | "lessThan"
+  | "isTrue"
+  | "isFalse";
+
+/**
+ * A single custom format: when it matches, its score is added to the torrent's total
+ */
+export interface QualityRule {
+  id: string;
+  name: string;
+  field: QualityRuleField;
+  operator: QualityRuleOperator;
+  value: string;
+  score: number;
+  enabled: boolean;
+}
+
+/**
+ * A named set of rules; the active profile decides the score shown in the table
+ */
+export interface QualityProfile {
+  id: string;
+  name: string;
+  rules: QualityRule[];
+}
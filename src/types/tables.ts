@@ -46,6 +46,8 @@ export type SortColumn =
   | "seeders"
   | "leechers"
   | "flags"
+  | "score"
+  | "health"
   // Anime-specific columns
   | "format"
   | "region"
@@ -56,6 +58,12 @@ export type SortColumn =
   | "audioChannels"
   | "hasDualAudio"
   | "subtitles"
+  | "bitDepth"
+  | "hdr"
+  | "encoder"
+  | "encoderSettings"
+  | "audioLanguages"
+  | "subtitleFormat"
   // Printed Media columns
   | "printedMediaType"
   | "translator"
@@ -75,18 +83,74 @@ export type SortColumn =
   | "hasCue"
   | null;
 
+/**
+ * Columns that can be placed in the modern table layout.
+ * Every sortable column plus the display-only aspect ratio column.
+ */
+export type ColumnId = NonNullable<SortColumn> | "aspectRatio";
+
+/**
+ * Saved column layouts keyed by table type.
+ * Each layout lists the visible columns in display order; columns not listed are hidden.
+ */
+export type ColumnLayouts = Partial<Record<TableType, ColumnId[]>>;
+
 /**
  * Sorting direction
  */
 export type SortDirection = "asc" | "desc";
 
+/**
+ * A single key of a multi-key sort. Keys are applied in order, later keys break ties.
+ */
+export interface SortKey {
+  column: NonNullable<SortColumn>;
+  direction: SortDirection;
+}
+
+/**
+ * Saved sort orders keyed by table type
+ */
+export type SortOrders = Partial<Record<TableType, SortKey[]>>;
+
+/**
+ * How torrents are split into sections: the site's own sections, a torrent property, or not at all
+ */
+export type GroupingMode = "original" | "releaseGroup" | "resolution" | "source" | "codec" | "flat";
+
+/**
+ * Saved grouping modes keyed by table type
+ */
+export type GroupingModes = Partial<Record<TableType, GroupingMode>>;
+
+/**
+ * Torrent properties that can be filtered by value from the filter bar
+ */
+export type FilterCategory = "resolution" | "videoCodec" | "container" | "group" | "subtitles" | "seadex";
+
+/**
+ * Yes/no properties that can be required from the filter bar
+ */
+export type FilterFlag = "dualAudio" | "freeleech";
+
+/**
+ * Active client-side filters for the modern table.
+ * Values within a category are alternatives (OR), everything else must match (AND).
+ */
+export interface TorrentFilters {
+  values: Partial<Record<FilterCategory, string[]>>;
+  flags: FilterFlag[];
+  /** Size range bounds in GiB, null when unbounded */
+  minSize: number | null;
+  maxSize: number | null;
+}
+
 /**
  * UI state for the torrent table
  */
 export interface TorrentTableState {
   expandedRows: Set<string>;
-  sortColumn: SortColumn;
-  sortDirection: SortDirection;
+  sortKeys: SortKey[];
   tableType: TableType;
 }
 
@@ -107,4 +171,5 @@ export interface TorrentTableProps {
   torrents: ParsedTorrentRow[];
   originalTable?: HTMLTableElement; // Add reference to original table for grouped extraction
   isSeriesPage?: boolean; // Add flag to indicate series page behavior
+  title?: string; // Table title on series pages (e.g., "Anime", "Live Action"), used for exports
 }
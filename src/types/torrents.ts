@@ -2,6 +2,28 @@
  * Core torrent data structures and media-specific types
  */
 
+import type { FilelistItem, SubtitleAnalysis } from "./details";
+
+/**
+ * Swarm health of a torrent, from best to worst
+ */
+export type TorrentHealthStatus = "healthy" | "low" | "dying" | "dead";
+
+export interface TorrentHealth {
+  status: TorrentHealthStatus;
+  reasons: string[]; // Why the torrent got its status, shown as a tooltip
+  canRequestReseed: boolean;
+}
+
+/**
+ * Why a torrent is probably not worth downloading next to another one in the table
+ */
+export interface ReleaseRedundancy {
+  kind: "duplicate" | "superseded";
+  reason: string; // Shown as a tooltip on the dimmed row
+  preferredTorrentId: string; // The torrent to get instead
+}
+
 /**
  * Media information extracted from MediaInfo tool
  */
@@ -12,16 +34,24 @@ export interface MediaInfo {
     width: number;
     height: number;
     framerate: string;
+    bitDepth: number;
+    hdrFormat: string; // "Dolby Vision", "HDR10+", "HDR10", "HLG" or combined, e.g. "Dolby Vision, HDR10"
+    encoder: string; // Writing library, e.g. "x265 3.5+1"
+    encoderSettings: string;
   };
   audio?: Array<{
     codec: string;
     bitrate: string;
     channels: string;
     language: string;
+    title: string;
+    isDub: boolean; // Not in the release's original language
   }>;
+  audioLanguages?: string[]; // Distinct audio languages, original language first
   subtitles?: Array<{
     language: string;
     type: string;
+    format: string; // Normalized subtitle format, e.g. "ASS", "PGS", "SRT"
   }>;
 }
 
@@ -123,6 +153,8 @@ export interface ParsedTorrentRow {
 
   // Media info (if available)
   mediaInfo?: MediaInfo;
+  subtitleAnalysis?: SubtitleAnalysis;
+  filelist?: FilelistItem[];
 
   // Seadex integration data (populated later)
   seadex?: {
@@ -132,6 +164,20 @@ export interface ParsedTorrentRow {
     comparison: string[];
   };
 
+  // Quality profile scoring (populated by the table when scoring is enabled)
+  qualityScore?: number;
+  qualityMatches?: string[]; // Names of the rules that matched
+  isQualityBest?: boolean; // Best score within its section
+
+  // Release group list membership (populated by the table from settings)
+  releaseGroupStatus?: "preferred" | "blocked";
+
+  // Swarm health (populated by the table from the health thresholds in settings)
+  health?: TorrentHealth;
+
+  // Duplicate or superseded release (populated by the table when detection is enabled)
+  redundancy?: ReleaseRedundancy;
+
   // Legacy compatibility fields from original implementation
   id?: string; // Alias for torrentId for backward compatibility
   reportLink?: string; // Report link if different from constructed one
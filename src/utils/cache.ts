@@ -15,6 +15,8 @@ interface CacheOptions {
   cacheFailures?: boolean;
   /** TTL for failed responses in milliseconds. Default: 1 hour */
   failureTtl?: number;
+  /** TTL for empty array responses in milliseconds, for lists that may only be empty for now. Default: ttl */
+  emptyTtl?: number;
   /** API key for rate limiting. Required for rate-limited calls */
   apiKey?: string;
   /** Custom rate limit configuration for this API */
@@ -221,7 +223,11 @@ export async function cachedApiCall<T>(
       }
 
       if (result !== null) {
-        await setCachedValue(cacheKey, result, options);
+        const isEmpty = Array.isArray(result) && result.length === 0;
+        await setCachedValue(cacheKey, result, {
+          ...options,
+          ttl: isEmpty && options.emptyTtl !== undefined ? options.emptyTtl : options.ttl,
+        });
       }
 
       return result;
@@ -0,0 +1,40 @@
+/**
+ * Helpers for matching torrents against the preferred/blocked release group lists
+ */
+
+export type ReleaseGroupStatus = "preferred" | "blocked";
+
+function normalizeGroupName(group: string): string {
+  return group.trim().toLowerCase();
+}
+
+/**
+ * Parse a newline or comma separated list of group names, dropping blanks and duplicates
+ */
+export function parseReleaseGroupList(text: string): string[] {
+  const seen = new Set<string>();
+  const groups: string[] = [];
+
+  for (const entry of text.split(/[\n,]/)) {
+    const group = entry.trim();
+    if (group && !seen.has(normalizeGroupName(group))) {
+      seen.add(normalizeGroupName(group));
+      groups.push(group);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Build a case-insensitive lookup from group name to its list status.
+ * A group on both lists counts as preferred.
+ */
+export function createReleaseGroupMatcher(preferred: string[], blocked: string[]) {
+  const statuses = new Map<string, ReleaseGroupStatus>();
+  for (const group of blocked) statuses.set(normalizeGroupName(group), "blocked");
+  for (const group of preferred) statuses.set(normalizeGroupName(group), "preferred");
+
+  return (group: string | undefined): ReleaseGroupStatus | undefined =>
+    group ? statuses.get(normalizeGroupName(group)) : undefined;
+}
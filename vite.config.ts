@@ -41,6 +41,9 @@ function createBuildConfig(isMinified: boolean) {
       "api.anidb.net",
       "graphql.anilist.co",
       "kitsu.app",
+      "animebytes.tv",
+      // Screenshot host, fetched to measure compared screenshots
+      "mei.kuudere.pw",
     ],
     runAt: "document-start",
     grant: [
@@ -51,6 +54,8 @@ function createBuildConfig(isMinified: boolean) {
       "GM_deleteValue",
       "GM_xmlhttpRequest",
       "GM_addElement",
+      "GM_download",
+      "GM_setClipboard",
     ],
   };
 
@@ -91,6 +96,8 @@ function createBuildConfig(isMinified: boolean) {
             GM_deleteValue: "GM_deleteValue",
             GM_xmlhttpRequest: "GM_xmlhttpRequest",
             GM_addElement: "GM_addElement",
+            GM_download: "GM_download",
+            GM_setClipboard: "GM_setClipboard",
             GM: "GM",
             unsafeWindow: "unsafeWindow",
           },